@@ -0,0 +1,90 @@
+import { GlideClient, GlideClusterClient, Batch, ClusterBatch } from '@valkey/valkey-glide';
+
+interface PendingCommand {
+  add: (batch: Batch | ClusterBatch) => void;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Coalesces commands issued close together into one non-atomic pipeline. Every caller
+ * still gets its own command's result (or error); a failure of the whole pipeline
+ * rejects every command in it.
+ */
+export class CommandBatcher {
+  private pending: PendingCommand[] = [];
+  private timer?: NodeJS.Immediate | NodeJS.Timeout;
+
+  // Pipelines sent and the commands they carried
+  public flushes = 0;
+  public commands = 0;
+
+  constructor(
+    private readonly client: GlideClient | GlideClusterClient,
+    private readonly maxBatchSize: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Queue a command, resolving with its result once the pipeline holding it has run
+   */
+  enqueue<T>(add: (batch: Batch | ClusterBatch) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({ add, resolve, reject });
+
+      if (this.pending.length >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        // A zero window still collects everything issued before the event loop moves on
+        this.timer = this.windowMs > 0
+          ? setTimeout(() => this.flush(), this.windowMs)
+          : setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  /**
+   * Send every queued command now
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer as NodeJS.Timeout);
+      clearImmediate(this.timer as NodeJS.Immediate);
+      this.timer = undefined;
+    }
+
+    const commands = this.pending;
+    this.pending = [];
+    if (commands.length === 0) {
+      return;
+    }
+
+    this.flushes++;
+    this.commands += commands.length;
+
+    this.execute(commands).then((results) => {
+      commands.forEach(({ resolve, reject }, i) => {
+        const result = results?.[i];
+        if (result instanceof Error) {
+          reject(result);
+        } else {
+          resolve(result);
+        }
+      });
+    }, (error) => {
+      commands.forEach(({ reject }) => reject(error));
+    });
+  }
+
+  private async execute(commands: PendingCommand[]): Promise<unknown[] | null> {
+    if (this.client instanceof GlideClusterClient) {
+      const batch = new ClusterBatch(false);
+      commands.forEach(({ add }) => add(batch));
+      return this.client.exec(batch, false);
+    }
+
+    const batch = new Batch(false);
+    commands.forEach(({ add }) => add(batch));
+    return this.client.exec(batch, false);
+  }
+}
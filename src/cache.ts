@@ -0,0 +1,65 @@
+/**
+ * Small in-process LRU cache with per-entry expiry, used in front of session reads
+ */
+export class LocalCache<V> {
+  private entries = new Map<string, { value: V; expires: number }>();
+
+  // Bumped on every invalidation so reads that started before it do not cache stale values
+  private generation = 0;
+
+  constructor(private readonly maxEntries: number, private readonly ttlMs: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Current invalidation generation, to pass to `set` after an asynchronous load
+   */
+  get epoch(): number {
+    return this.generation;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Cache a value, unless something was invalidated since `epoch` was read
+   */
+  set(key: string, value: V, epoch: number = this.generation): void {
+    if (epoch !== this.generation) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + this.ttlMs });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+    this.generation++;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.generation++;
+  }
+}
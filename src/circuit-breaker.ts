@@ -0,0 +1,129 @@
+import { ClosingError } from '@valkey/valkey-glide';
+import { CircuitBreakerOptions, CircuitState } from './types';
+import { StoreUnavailableError } from './errors';
+import { isTransientError } from './retry';
+
+export const DEFAULT_FAILURE_THRESHOLD = 0.5;
+export const DEFAULT_MINIMUM_REQUESTS = 10;
+export const DEFAULT_BREAKER_WINDOW = 10000;
+export const DEFAULT_BREAKER_COOLDOWN = 5000;
+export const DEFAULT_HALF_OPEN_REQUESTS = 1;
+
+/**
+ * Errors that show the server is unreachable: timeouts, lost connections and a closed client
+ */
+export function isOutage(error: unknown): boolean {
+  return isTransientError(error) || error instanceof ClosingError;
+}
+
+/**
+ * Closed / open / half-open circuit breaker. While closed, outcomes are recorded over a
+ * rolling window and the circuit opens once enough requests were seen and the share of
+ * failures reaches the threshold. While open, calls fail immediately until the cooldown
+ * ends; then a limited number of trial calls decide whether it closes or opens again.
+ */
+export class CircuitBreaker {
+  private current: CircuitState = 'closed';
+  private outcomes: { time: number; failed: boolean }[] = [];
+  private openedAt = 0;
+  private trials = 0;
+
+  private readonly failureThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenRequests: number;
+  private readonly isFailure: (error: unknown) => boolean;
+
+  constructor(options: CircuitBreakerOptions, private readonly onStateChange: (state: CircuitState, previous: CircuitState) => void) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.minimumRequests = options.minimumRequests ?? DEFAULT_MINIMUM_REQUESTS;
+    this.windowMs = options.windowMs ?? DEFAULT_BREAKER_WINDOW;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_BREAKER_COOLDOWN;
+    this.halfOpenRequests = options.halfOpenRequests ?? DEFAULT_HALF_OPEN_REQUESTS;
+    this.isFailure = options.isFailure ?? isOutage;
+
+    if (!(this.failureThreshold > 0 && this.failureThreshold <= 1)) {
+      throw new TypeError('circuitBreaker.failureThreshold must be a failure rate above 0 and at most 1');
+    }
+    for (const [name, value] of Object.entries({ minimumRequests: this.minimumRequests, halfOpenRequests: this.halfOpenRequests })) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new TypeError(`circuitBreaker.${name} must be a positive integer`);
+      }
+    }
+    if (!(this.windowMs > 0) || !(this.cooldownMs >= 0)) {
+      throw new TypeError('circuitBreaker.windowMs must be positive and cooldownMs non-negative');
+    }
+  }
+
+  get state(): CircuitState {
+    if (this.current === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.transition('half-open');
+    }
+    return this.current;
+  }
+
+  /**
+   * Run `fn` if the circuit lets it through, recording its outcome
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+
+    if (state === 'open' || (state === 'half-open' && this.trials >= this.halfOpenRequests)) {
+      throw new StoreUnavailableError(Math.max(0, this.openedAt + this.cooldownMs - Date.now()));
+    }
+
+    if (state === 'half-open') {
+      this.trials++;
+    }
+
+    try {
+      const result = await fn();
+      this.record(false, state);
+      return result;
+    } catch (error) {
+      this.record(this.isFailure(error), state);
+      throw error;
+    }
+  }
+
+  private record(failed: boolean, state: CircuitState): void {
+    if (state === 'half-open') {
+      // Trial calls decide alone; outcomes of calls started before the circuit opened do not count
+      if (this.current === 'half-open') {
+        this.transition(failed ? 'open' : 'closed');
+      }
+      return;
+    }
+
+    if (this.current !== 'closed') {
+      return;
+    }
+
+    const now = Date.now();
+    this.outcomes.push({ time: now, failed });
+    while (this.outcomes.length > 0 && this.outcomes[0].time <= now - this.windowMs) {
+      this.outcomes.shift();
+    }
+
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    if (failed && this.outcomes.length >= this.minimumRequests && failures / this.outcomes.length >= this.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.current;
+    this.current = state;
+    this.trials = 0;
+
+    if (state === 'open') {
+      this.openedAt = Date.now();
+    }
+    if (state === 'closed') {
+      this.outcomes = [];
+    }
+
+    this.onStateChange(state, previous);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Cluster helpers: key slot calculation (CRC16/XMODEM modulo 16384, honouring
+ * `{hash tags}`) and topology parsing, used to group multi-key commands by the primary
+ * that owns their keys and to send commands to each primary
+ */
+
+const SLOT_COUNT = 16384;
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    table[i] = crc & 0xffff;
+  }
+  return table;
+})();
+
+function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff];
+  }
+  return crc;
+}
+
+/**
+ * Hash slot of a key. Only the part inside the first non-empty `{...}` is hashed when present.
+ */
+export function keySlot(key: string): number {
+  let hashed = key;
+
+  const open = key.indexOf('{');
+  if (open !== -1) {
+    const close = key.indexOf('}', open + 1);
+    if (close > open + 1) {
+      hashed = key.slice(open + 1, close);
+    }
+  }
+
+  return crc16(Buffer.from(hashed, 'utf8')) % SLOT_COUNT;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, resolving in input order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export interface ClusterNodeAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * The healthy primaries in `CLUSTER NODES` output, with their address and slot fields
+ */
+function parseNodes(nodes: string): { address: ClusterNodeAddress; slots: string[] }[] {
+  const primaries: { address: ClusterNodeAddress; slots: string[] }[] = [];
+
+  for (const line of nodes.split('\n')) {
+    // <id> <ip:port@cport[,hostname]> <flags> <primary> <ping> <pong> <epoch> <link> <slot>...
+    const fields = line.trim().split(' ');
+    if (fields.length < 9) {
+      continue;
+    }
+
+    const flags = fields[2].split(',');
+    if (!flags.includes('master') || flags.includes('fail') || flags.includes('noaddr')) {
+      continue;
+    }
+
+    const address = fields[1].split('@')[0];
+    const separator = address.lastIndexOf(':');
+    primaries.push({
+      address: { host: address.slice(0, separator), port: Number(address.slice(separator + 1)) },
+      slots: fields.slice(8),
+    });
+  }
+
+  return primaries;
+}
+
+/**
+ * Addresses of the healthy primaries that own slots, from `CLUSTER NODES` output
+ */
+export function parsePrimaries(nodes: string): ClusterNodeAddress[] {
+  return parseNodes(nodes).map(node => node.address);
+}
+
+/**
+ * Owning primary (`host:port`) of every slot, from `CLUSTER NODES` output. Slots being
+ * migrated stay with their current owner; unassigned slots are undefined.
+ */
+export function parseSlotOwners(nodes: string): (string | undefined)[] {
+  const owners = new Array<string | undefined>(SLOT_COUNT);
+
+  for (const { address, slots } of parseNodes(nodes)) {
+    const name = `${address.host}:${address.port}`;
+
+    for (const range of slots) {
+      // Skip migration markers: [slot->-target] and [slot-<-source]
+      if (range.startsWith('[')) {
+        continue;
+      }
+      const [start, end = start] = range.split('-').map(Number);
+      owners.fill(name, start, end + 1);
+    }
+  }
+
+  return owners;
+}
+
+/**
+ * Group keys by the primary that owns their slot, keeping each key's position in the
+ * input. Keys in unassigned slots share one group.
+ */
+export function groupByOwner(keys: string[], owners: (string | undefined)[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+
+  keys.forEach((key, index) => {
+    const owner = owners[keySlot(key)] ?? '';
+    const group = groups.get(owner);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(owner, [index]);
+    }
+  });
+
+  return groups;
+}
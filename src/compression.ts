@@ -0,0 +1,96 @@
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { CompressionAlgorithm, CompressionOptions } from './types';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const deflate = promisify(zlib.deflate);
+const inflate = promisify(zlib.inflate);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/**
+ * Compressed values start with a NUL byte followed by 'z' and an algorithm code.
+ * Serialized sessions (e.g. JSON) never start with NUL, so legacy values are left untouched.
+ */
+const MARKER = Buffer.from([0x00, 0x7a]);
+const HEADER_LENGTH = MARKER.length + 1;
+
+const ALGORITHM_CODES: Record<CompressionAlgorithm, number> = {
+  gzip: 0x67, // 'g'
+  deflate: 0x64, // 'd'
+  brotli: 0x62, // 'b'
+};
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+export interface ResolvedCompressionOptions {
+  algorithm: CompressionAlgorithm;
+  threshold: number;
+  level?: number;
+}
+
+/**
+ * Validate compression options and fill in defaults
+ */
+export function resolveCompressionOptions(options: CompressionOptions): ResolvedCompressionOptions {
+  const algorithm = options.algorithm || 'gzip';
+  if (!(algorithm in ALGORITHM_CODES)) {
+    throw new TypeError(`Invalid compression algorithm: ${algorithm}`);
+  }
+
+  const threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  if (threshold < 0) {
+    throw new TypeError('Compression threshold must be a non-negative number of bytes');
+  }
+
+  return { algorithm, threshold, level: options.level };
+}
+
+/**
+ * Compress a payload and prepend the header marker
+ */
+export async function compress(payload: Buffer, algorithm: CompressionAlgorithm, level?: number): Promise<Buffer> {
+  let body: Buffer;
+
+  switch (algorithm) {
+    case 'gzip':
+      body = await gzip(payload, level !== undefined ? { level } : {});
+      break;
+    case 'deflate':
+      body = await deflate(payload, level !== undefined ? { level } : {});
+      break;
+    case 'brotli':
+      body = await brotliCompress(payload, {
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level ?? 4 }
+      });
+      break;
+  }
+
+  return Buffer.concat([MARKER, Buffer.from([ALGORITHM_CODES[algorithm]]), body]);
+}
+
+/**
+ * Check whether a stored value carries the compression header
+ */
+export function isCompressed(data: Buffer): boolean {
+  return data.length >= HEADER_LENGTH && data[0] === MARKER[0] && data[1] === MARKER[1];
+}
+
+/**
+ * Strip the header marker and decompress with the algorithm it names
+ */
+export async function decompress(data: Buffer): Promise<Buffer> {
+  const body = data.subarray(HEADER_LENGTH);
+
+  switch (data[MARKER.length]) {
+    case ALGORITHM_CODES.gzip:
+      return gunzip(body);
+    case ALGORITHM_CODES.deflate:
+      return inflate(body);
+    case ALGORITHM_CODES.brotli:
+      return brotliDecompress(body);
+    default:
+      throw new Error(`Unknown compression algorithm code: ${data[MARKER.length]}`);
+  }
+}
@@ -0,0 +1,108 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { EncryptionOptions } from './types';
+import { SessionDecryptionError } from './errors';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encrypted values start with a NUL byte followed by 'e' and a format version,
+ * then the key id (length-prefixed), IV, auth tag and ciphertext.
+ */
+const MARKER = Buffer.from([0x00, 0x65]);
+const FORMAT_VERSION = 1;
+
+/**
+ * AES-256-GCM encryption with a keyring: new values use the current key,
+ * any key still in the ring can decrypt.
+ */
+export class Keyring {
+  public readonly currentKeyId: string;
+  private keys = new Map<string, Buffer>();
+
+  constructor(options: EncryptionOptions) {
+    for (const [keyId, material] of Object.entries(options.keys || {})) {
+      const key = typeof material === 'string' ? Buffer.from(material, 'base64') : material;
+
+      if (key.length !== KEY_LENGTH) {
+        throw new TypeError(`Encryption key "${keyId}" must be ${KEY_LENGTH} bytes`);
+      }
+      if (Buffer.byteLength(keyId) === 0 || Buffer.byteLength(keyId) > 255) {
+        throw new TypeError('Encryption key ids must be between 1 and 255 bytes');
+      }
+
+      this.keys.set(keyId, key);
+    }
+
+    if (!this.keys.has(options.currentKeyId)) {
+      throw new TypeError(`Current encryption key "${options.currentKeyId}" is not in the keyring`);
+    }
+
+    this.currentKeyId = options.currentKeyId;
+  }
+
+  /**
+   * Encrypt a payload with the current key. `context` is bound as additional
+   * authenticated data so a value cannot be moved to another key.
+   */
+  encrypt(payload: Buffer, context: string): Buffer {
+    const keyId = Buffer.from(this.currentKeyId);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.keys.get(this.currentKeyId)!, iv);
+    cipher.setAAD(Buffer.from(context));
+
+    const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+
+    return Buffer.concat([
+      MARKER,
+      Buffer.from([FORMAT_VERSION, keyId.length]),
+      keyId,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext
+    ]);
+  }
+
+  /**
+   * Decrypt a value produced by `encrypt` using the key it was tagged with
+   */
+  decrypt(data: Buffer, context: string): Buffer {
+    if (data[MARKER.length] !== FORMAT_VERSION) {
+      throw new SessionDecryptionError(`Unsupported encryption format version: ${data[MARKER.length]}`);
+    }
+
+    const keyIdStart = MARKER.length + 2;
+    const ivStart = keyIdStart + data[MARKER.length + 1];
+    const tagStart = ivStart + IV_LENGTH;
+    const bodyStart = tagStart + TAG_LENGTH;
+
+    if (data.length < bodyStart) {
+      throw new SessionDecryptionError('Encrypted session value is truncated');
+    }
+
+    const keyId = data.subarray(keyIdStart, ivStart).toString();
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new SessionDecryptionError(`Unknown encryption key id: ${keyId}`);
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, data.subarray(ivStart, tagStart));
+      decipher.setAAD(Buffer.from(context));
+      decipher.setAuthTag(data.subarray(tagStart, bodyStart));
+
+      return Buffer.concat([decipher.update(data.subarray(bodyStart)), decipher.final()]);
+    } catch (error) {
+      throw new SessionDecryptionError(`Failed to decrypt session value with key "${keyId}": ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Check whether a stored value carries the encryption header
+ */
+export function isEncrypted(data: Buffer): boolean {
+  return data.length > MARKER.length + 1 && data[0] === MARKER[0] && data[1] === MARKER[1];
+}
@@ -0,0 +1,51 @@
+/**
+ * Raised when a stored session value cannot be decrypted (unknown key id, tampering,
+ * wrong key material) or when an unencrypted value is read while encryption is required
+ */
+export class SessionDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionDecryptionError';
+  }
+}
+
+/**
+ * Raised by `set` in optimistic concurrency mode when the session was modified
+ * by another request since it was read
+ */
+export class SessionConflictError extends Error {
+  constructor(public readonly sid: string) {
+    super(`Session ${sid} was modified concurrently`);
+    this.name = 'SessionConflictError';
+  }
+}
+
+/**
+ * Raised by `withLock` when the session lock cannot be acquired in time
+ */
+export class SessionLockError extends Error {
+  constructor(public readonly sid: string, message: string) {
+    super(message);
+    this.name = 'SessionLockError';
+  }
+}
+
+/**
+ * Raised instead of contacting Valkey while the circuit breaker is open
+ */
+export class StoreUnavailableError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super('Session store is unavailable (circuit breaker open)');
+    this.name = 'StoreUnavailableError';
+  }
+}
+
+/**
+ * Raised by operations started after `close` was called
+ */
+export class StoreClosedError extends Error {
+  constructor() {
+    super('Session store is closed');
+    this.name = 'StoreClosedError';
+  }
+}
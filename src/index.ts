@@ -1,10 +1,315 @@
-import { GlideClient, GlideClusterClient, TimeUnit, ClusterScanCursor } from '@valkey/valkey-glide';
-import { SessionData, Store, Session, Cookie, ValkeyStoreOptions, ValkeyClient } from './types';
+import { GlideClient, GlideClientConfiguration, GlideClusterClient, GlideString, PubSubMsg, TimeUnit, ClusterScanCursor, Batch, ClusterBatch, Script, Decoder, InfBoundary, ReadFrom } from '@valkey/valkey-glide';
+import { SessionData, Store, Session, Cookie, ValkeyStoreOptions, ValkeyClient, StorageMode, Serializer, BinarySerializer, SessionMigrations, EvictionPolicy, PageOptions, SessionPage, ConcurrencyMode, ConflictHandler, MergeFunction, LockOptions, ScanProgress, ClearOptions, ClearProgress, RetryEvent, CircuitState, CloseOptions } from './types';
 import { Request } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { compress, decompress, isCompressed, resolveCompressionOptions, ResolvedCompressionOptions } from './compression';
+import { Keyring, isEncrypted } from './encryption';
+import { SessionDecryptionError, SessionConflictError, SessionLockError, StoreUnavailableError, StoreClosedError } from './errors';
+import { CircuitBreaker, isOutage } from './circuit-breaker';
+import { resolveMergeStrategy } from './merge';
+import { LocalCache } from './cache';
+import { CommandBatcher } from './batcher';
+import { resolveRetryOptions, retryDelay, ResolvedRetryOptions } from './retry';
+import { groupByOwner, mapWithConcurrency, parsePrimaries, parseSlotOwners, ClusterNodeAddress } from './cluster';
+
+export type { Serializer, BinarySerializer, ConflictHandler, MergeFunction, MergeStrategy, ScanProgress, ClearOptions, ClearProgress, RetryOptions, RetryEvent, CircuitBreakerOptions, CircuitState, CloseOptions } from './types';
 
-export interface Serializer {
-  parse: (s: string) => any | Promise<any>;
-  stringify: (obj: any) => string;
+/**
+ * Serialized session (or hash field) before it is compressed/encrypted for storage
+ */
+type Payload = string | Buffer;
+
+/**
+ * Upper bound on per-session bookkeeping kept in memory (oldest entries are dropped first)
+ */
+const MAX_TRACKED_SESSIONS = 10000;
+
+/**
+ * Upper bound on cluster scan cursors kept alive for `page`
+ */
+const MAX_TRACKED_CURSORS = 1000;
+
+/**
+ * Where a paginated scan resumes: the scan cursor plus session IDs already
+ * scanned but not yet returned
+ */
+interface CursorPosition {
+  cursor: string | ClusterScanCursor;
+  pending: string[];
+  // False before the first SCAN call, when the standalone cursor '0' does not mean done
+  started: boolean;
+}
+
+/**
+ * Partial hash update: applies changed fields and removals only if the session hash still exists,
+ * so a session that expired since it was loaded is never resurrected with a subset of its fields.
+ * ARGV: ttl, number of changed fields, changed field/value pairs..., removed fields...
+ */
+const HASH_UPDATE_SCRIPT = new Script(`
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+local changed = tonumber(ARGV[2])
+if changed > 0 then
+  redis.call('HSET', KEYS[1], unpack(ARGV, 3, 2 + changed * 2))
+end
+if #ARGV > 2 + changed * 2 then
+  redis.call('HDEL', KEYS[1], unpack(ARGV, 3 + changed * 2))
+end
+local ttl = tonumber(ARGV[1])
+if ttl > 0 then
+  redis.call('EXPIRE', KEYS[1], ttl)
+else
+  redis.call('PERSIST', KEYS[1])
+end
+return 1
+`);
+
+/**
+ * Compare-and-set for optimistic concurrency: writes the value only if the stored value
+ * still hashes to the expected version ('' = the key must not exist).
+ * ARGV: expected version, value, ttl in seconds (0 = no expiry)
+ */
+const COMPARE_AND_SET_SCRIPT = new Script(`
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '' then
+  if current then
+    return 0
+  end
+elseif not current or redis.sha1hex(current) ~= ARGV[1] then
+  return 0
+end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1
+`);
+
+/**
+ * Refresh a string session's TTL and, if it still exists, record the touch time in its
+ * companion stamp key, leaving the session value itself alone.
+ * KEYS: session key, stamp key. ARGV: ttl in seconds, stamp (ms)
+ */
+const TOUCH_STAMP_SCRIPT = new Script(`
+if redis.call('EXPIRE', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+redis.call('SET', KEYS[2], ARGV[2], 'EX', ARGV[1])
+return 1
+`);
+
+/**
+ * Release a session lock only if it is still held with our token
+ */
+const LOCK_RELEASE_SCRIPT = new Script(`
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`);
+
+/**
+ * Session lock defaults: how long a lock is held at most, how long to wait for it,
+ * and how often to retry while waiting (all in ms)
+ */
+const DEFAULT_LOCK_TTL = 10000;
+const DEFAULT_LOCK_WAIT = 5000;
+const LOCK_RETRY_DELAY = 50;
+
+/**
+ * Per-user session index: a sorted set of session IDs scored by expiry time (ms), plus a
+ * companion sorted set scored by creation ('oldest') or last write ('lru') time that is only
+ * maintained while a session cap is configured. Adds/refreshes one member, prunes expired
+ * members, evicts the lowest-ranked other sessions above the cap and keeps both keys alive
+ * as long as the longest-lived session. Returns the evicted session IDs.
+ * ARGV: sid, expiry score (or '+inf'), current time (ms), cap (0 = none), eviction policy
+ */
+const USER_INDEX_ADD_SCRIPT = new Script(`
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[3])
+if #expired > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', '(' .. ARGV[3])
+  redis.call('ZREM', KEYS[2], unpack(expired))
+end
+local evicted = {}
+local max = tonumber(ARGV[4])
+if max > 0 then
+  if ARGV[5] == 'lru' then
+    redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+  else
+    redis.call('ZADD', KEYS[2], 'NX', ARGV[3], ARGV[1])
+  end
+  local members = redis.call('ZRANGE', KEYS[1], 0, -1)
+  if #members > max then
+    local candidates = {}
+    for _, member in ipairs(members) do
+      if member ~= ARGV[1] then
+        -- Sessions indexed before the cap was enabled have no rank and go first
+        local rank = tonumber(redis.call('ZSCORE', KEYS[2], member) or '0')
+        table.insert(candidates, { member, rank })
+      end
+    end
+    table.sort(candidates, function(a, b) return a[2] < b[2] end)
+    for i = 1, #members - max do
+      table.insert(evicted, candidates[i][1])
+    end
+    redis.call('ZREM', KEYS[1], unpack(evicted))
+    redis.call('ZREM', KEYS[2], unpack(evicted))
+  end
+end
+local last = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+for _, key in ipairs(KEYS) do
+  if last[2] == 'inf' then
+    redis.call('PERSIST', key)
+  elseif last[2] then
+    redis.call('PEXPIREAT', key, last[2])
+  end
+end
+return evicted
+`);
+
+/**
+ * How often Valkey is probed while the fallback store is in use (ms)
+ */
+const DEFAULT_FALLBACK_PROBE = 1000;
+
+/**
+ * How long `close` waits for in-flight operations to settle (ms)
+ */
+const DEFAULT_CLOSE_TIMEOUT = 10000;
+
+/**
+ * How long `get` keeps reading a session from the primary after writing it (ms)
+ */
+const DEFAULT_READ_YOUR_WRITES = 2000;
+
+const READ_FROM_STRATEGIES: ReadFrom[] = ['primary', 'preferReplica', 'AZAffinity', 'AZAffinityReplicasAndPrimary'];
+
+/**
+ * How often expired members are removed from the expiry index (ms)
+ */
+const DEFAULT_PRUNE_INTERVAL = 60000;
+
+/**
+ * Primaries read from at once when loading sessions from a cluster
+ */
+const DEFAULT_MGET_CONCURRENCY = 16;
+
+/**
+ * How long the slot owners read from `CLUSTER NODES` are reused (ms)
+ */
+const SLOT_OWNERS_TTL = 30000;
+
+/**
+ * Pipelining defaults: flush once the event loop moves on, or at this many commands
+ */
+const DEFAULT_BATCH_WINDOW = 0;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Local read cache defaults: entries kept and how long each is trusted (ms)
+ */
+const DEFAULT_CACHE_ENTRIES = 1000;
+const DEFAULT_CACHE_TTL = 5000;
+
+/**
+ * What the local read cache keeps per session: the serialized form, re-parsed on every
+ * hit so callers never share (and mutate) one object
+ */
+interface CachedSession {
+  payload?: Payload;
+  state: LoadedSession;
+}
+
+/**
+ * Session property holding the schema version a session was written with
+ */
+const SCHEMA_VERSION_FIELD = '__schemaVersion';
+
+/**
+ * Session property carrying the version a session was read at (optimistic concurrency).
+ * It is an ordinary property so it survives express-session copying the session into
+ * `req.session`, and is never persisted.
+ */
+const VERSION_FIELD = '__version';
+
+/**
+ * Session property holding when the session's TTL was last refreshed (ms), used by
+ * `touchAfter` to skip redundant touches. Like the version, it stays on sessions that are read.
+ */
+const TOUCH_FIELD = '__lastTouch';
+
+/**
+ * How many times a conflicting write is merged and retried before giving up
+ */
+const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * What the store remembers about a session it last read or wrote
+ */
+interface LoadedSession {
+  // Hash of the serialized payload (string storage with dirty tracking)
+  fingerprint?: string;
+  // Serialized field values (hash storage)
+  fields?: Record<string, Payload>;
+  // SHA-1 of the stored bytes (optimistic concurrency)
+  version?: string;
+  // Last touch recorded next to a string session (touchAfter)
+  touched?: number;
+}
+
+/**
+ * Carry a last-touch stamp over to a session when it is newer than the one it was saved with
+ */
+function withTouch(session: any, touched?: number): any {
+  if (touched !== undefined && session && typeof session === 'object' && !(session[TOUCH_FIELD] >= touched)) {
+    session[TOUCH_FIELD] = touched;
+  }
+  return session;
+}
+
+/**
+ * Copy of a session without its last-touch stamp
+ */
+function omitTouch(session: any): any {
+  if (!session || typeof session !== 'object') {
+    return session;
+  }
+
+  const { [TOUCH_FIELD]: stamp, ...content } = session;
+  return content;
+}
+
+/**
+ * View a payload or bytes returned by valkey-glide as a Node.js Buffer (without copying binary input)
+ */
+function toBuffer(data: string | Uint8Array): Buffer {
+  if (typeof data === 'string') {
+    return Buffer.from(data);
+  }
+
+  return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Compare serialized payloads, which may be strings or Buffers
+ */
+function samePayload(a: Payload | undefined, b: Payload): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a === b;
+  }
+
+  return a !== undefined && toBuffer(a).equals(toBuffer(b));
+}
+
+/**
+ * Encryption context of a hash field (session IDs cannot contain NUL, so this is unambiguous)
+ */
+function fieldContext(key: string, field: string): string {
+  return `${key}\0${field}`;
 }
 
 /**
@@ -34,6 +339,33 @@ function optionalCb<T>(
   fn(cb);
 }
 
+/**
+ * Key stored next to a session key, under its own namespace so it never matches the
+ * session prefix, and hash-tagged to the session's cluster slot. Undefined when no hash
+ * tag can reproduce that slot.
+ */
+function companionKey(key: string, kind: string): string | undefined {
+  const open = key.indexOf('{');
+  const close = open >= 0 ? key.indexOf('}', open + 1) : -1;
+
+  if (close > open + 1) {
+    // The key already has a hash tag, and the namespace adds no braces before it
+    return `session-${kind}:${key}`;
+  }
+
+  // Otherwise the slot comes from the whole key, which can only be wrapped if it has no '}'
+  return key.includes('}') ? undefined : `session-${kind}:{${key}}`;
+}
+
+/**
+ * Call a callback-style express-session store method as a promise
+ */
+function callStore<T>(store: Store, method: 'get' | 'set' | 'destroy' | 'touch', ...args: any[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    (store as any)[method](...args, (err: any, result?: T) => err ? reject(err) : resolve(result as T));
+  });
+}
+
 /**
  * Valkey session store for Express using valkey-glide
  * Drop-in replacement for connect-redis with enhanced performance
@@ -44,9 +376,87 @@ export class ValkeyStore extends Store {
   public ttl: number | ((sess: SessionData) => number);
   public disableTTL: boolean;
   public disableTouch: boolean;
+  public touchAfter: number;
   public logErrors: boolean;
   public scanCount: number;
-  public serializer: Serializer;
+  public mgetConcurrency: number;
+  public scanParallelism?: number;
+  public expiryIndexKey?: string;
+  public serializer: Serializer | BinarySerializer;
+  public storage: StorageMode;
+  public dirtyTracking: boolean;
+  public skippedWrites = 0;
+  public skippedTouches = 0;
+  public compression?: ResolvedCompressionOptions;
+  public requireEncryption: boolean;
+  public schemaVersion?: number;
+  public migrations: SessionMigrations;
+  public writeBackMigrations: boolean;
+  public userIdField?: string;
+  public userIndexPrefix: string;
+  public maxSessionsPerUser?: number;
+  public evictionPolicy: EvictionPolicy;
+  public concurrency: ConcurrencyMode;
+
+  private onConflict?: ConflictHandler;
+  private merge?: MergeFunction;
+
+  // Serialized sessions by version, kept as the common base for three-way merges
+  private bases = new Map<string, Payload>();
+
+  private userIdResolver?: (session: SessionData) => string | number | null | undefined;
+
+  private keyring?: Keyring;
+
+  // Per-session state from the last read or write, used to skip or narrow subsequent writes
+  private loaded = new Map<string, LoadedSession>();
+
+  // Retry policy and circuit breaker for get/set/touch/destroy
+  private retry?: ResolvedRetryOptions;
+  private breaker?: CircuitBreaker;
+
+  // Fallback store used while Valkey is unreachable, the writes it received since
+  // (latest per sid; null for a destroy) when they are to be replayed, and the sids it
+  // received, cleared from it after the outage
+  public fallback?: Store;
+  private fallbackReplay: boolean;
+  private fallbackProbeMs: number;
+  private isDegraded = false;
+  private pendingReplay = new Map<string, SessionData | null>();
+  private fallbackWrites = new Set<string>();
+  private probeTimer?: NodeJS.Timeout;
+
+  // Client for reads routed away from the primary, and when each recently written
+  // session may be read from it again (epoch ms, by key)
+  public readFrom: ReadFrom;
+  public readClient?: ValkeyClient;
+  private readYourWritesMs: number;
+  private recentWrites = new Map<string, number>();
+
+  // Background removal of expired members from the expiry index
+  private pruneTimer?: NodeJS.Timeout;
+
+  // Pipeline that coalesces set/touch/destroy commands, when batching is enabled
+  private batcher?: CommandBatcher;
+
+  // Local read cache and the pub/sub channel used to invalidate it across instances
+  private cache?: LocalCache<CachedSession>;
+  private cacheChannel: string;
+  private readonly instanceId = randomBytes(8).toString('hex');
+
+  // Cluster scan cursors handed out by `page`, by cursor id
+  private scanCursors = new Map<string, ClusterScanCursor>();
+
+  // Slot owners read from CLUSTER NODES, by cluster client, and when they were read (epoch ms)
+  private slotOwnerCache = new Map<ValkeyClient, { at: number; owners: Promise<(string | undefined)[]> }>();
+
+  // Operations started and not yet settled, what `close` waits on, and the shutdown once started
+  private inFlight = 0;
+  private drainWaiters: Array<() => void> = [];
+  private closing?: Promise<number>;
+
+  // Set while a `withLock` callback runs, so its own store calls still go through during `close`
+  private lockScope = new AsyncLocalStorage<boolean>();
 
   constructor(options: ValkeyStoreOptions) {
     super();
@@ -58,7 +468,145 @@ export class ValkeyStore extends Store {
     this.disableTouch = options.disableTouch || false;
     this.logErrors = options.logErrors !== false; // default true
     this.scanCount = options.scanCount || 100;
+    this.mgetConcurrency = options.mgetConcurrency ?? DEFAULT_MGET_CONCURRENCY;
+    this.scanParallelism = options.scanParallelism;
     this.serializer = options.serializer || JSON;
+    this.storage = options.storage || 'string';
+    this.dirtyTracking = options.dirtyTracking || false;
+    this.touchAfter = options.touchAfter || 0;
+    this.cache = options.cache ? new LocalCache(options.cache.maxEntries ?? DEFAULT_CACHE_ENTRIES, options.cache.ttlMs ?? DEFAULT_CACHE_TTL) : undefined;
+    this.cacheChannel = options.cache?.channel || `session-invalidation:${this.prefix}`;
+
+    if (options.batching) {
+      const { windowMs = DEFAULT_BATCH_WINDOW, maxBatchSize = DEFAULT_BATCH_SIZE } = options.batching === true ? {} : options.batching;
+      if (!Number.isFinite(windowMs) || windowMs < 0) {
+        throw new TypeError('batching.windowMs must be a non-negative number of milliseconds');
+      }
+      if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+        throw new TypeError('batching.maxBatchSize must be a positive integer');
+      }
+      this.batcher = new CommandBatcher(this.client, maxBatchSize, windowMs);
+    }
+
+    this.retry = options.retry ? resolveRetryOptions(options.retry) : undefined;
+    this.breaker = options.circuitBreaker
+      ? new CircuitBreaker(options.circuitBreaker, (state, previous) => this.emit('circuitStateChange', state, previous))
+      : undefined;
+
+    this.fallback = options.fallback;
+    this.fallbackReplay = options.fallbackReplay || false;
+    this.fallbackProbeMs = options.fallbackProbeMs ?? DEFAULT_FALLBACK_PROBE;
+    if (!(this.fallbackProbeMs > 0)) {
+      throw new TypeError('fallbackProbeMs must be a positive number of milliseconds');
+    }
+    if (this.fallbackReplay && !this.fallback) {
+      throw new TypeError('fallbackReplay requires a fallback store');
+    }
+
+    this.readFrom = options.readFrom || 'primary';
+    this.readClient = this.readFrom === 'primary' ? undefined : options.readClient;
+    this.readYourWritesMs = options.readYourWritesMs ?? DEFAULT_READ_YOUR_WRITES;
+    if (!READ_FROM_STRATEGIES.includes(this.readFrom)) {
+      throw new TypeError(`Invalid readFrom strategy: ${this.readFrom}`);
+    }
+    if (this.readFrom !== 'primary' && !this.readClient) {
+      throw new TypeError('readFrom requires a readClient created with the same readFrom');
+    }
+    if (!Number.isFinite(this.readYourWritesMs) || this.readYourWritesMs < 0) {
+      throw new TypeError('readYourWritesMs must be a non-negative number of milliseconds');
+    }
+
+    if (options.expiryIndex) {
+      const { key, pruneIntervalMs = DEFAULT_PRUNE_INTERVAL } = options.expiryIndex === true ? {} : options.expiryIndex;
+      if (!Number.isFinite(pruneIntervalMs) || pruneIntervalMs < 0) {
+        throw new TypeError('expiryIndex.pruneIntervalMs must be a non-negative number of milliseconds');
+      }
+
+      this.expiryIndexKey = key || `session-index:${this.prefix}`;
+      if (pruneIntervalMs > 0) {
+        this.pruneTimer = setInterval(() => {
+          this.pruneExpiryIndex().catch((error) => {
+            if (this.logErrors) {
+              console.warn('ValkeyStore: Failed to prune the expiry index:', error);
+            }
+          });
+        }, pruneIntervalMs);
+        this.pruneTimer.unref();
+      }
+    }
+    this.compression = options.compression ? resolveCompressionOptions(options.compression) : undefined;
+    this.keyring = options.encryption ? new Keyring(options.encryption) : undefined;
+    this.requireEncryption = options.encryption?.requireEncryption || false;
+    this.migrations = options.migrations || {};
+    this.writeBackMigrations = options.writeBackMigrations || false;
+
+    // Versioning is enabled by an explicit schema version or by registering migrations
+    const migrationVersions = Object.keys(this.migrations).map(Number);
+    if (migrationVersions.some(version => !Number.isInteger(version) || version < 1)) {
+      throw new TypeError('Migration versions must be positive integers');
+    }
+    this.schemaVersion = options.schemaVersion ?? (migrationVersions.length > 0 ? Math.max(...migrationVersions) : undefined);
+    if (this.schemaVersion !== undefined && migrationVersions.some(version => version > this.schemaVersion!)) {
+      throw new TypeError(`Migration registered for a version above schemaVersion ${this.schemaVersion}`);
+    }
+
+    if (this.storage !== 'string' && this.storage !== 'hash') {
+      throw new TypeError(`Invalid storage mode: ${this.storage}`);
+    }
+    if (!Number.isFinite(this.touchAfter) || this.touchAfter < 0) {
+      throw new TypeError('touchAfter must be a non-negative number of seconds');
+    }
+    if (!Number.isInteger(this.mgetConcurrency) || this.mgetConcurrency < 1) {
+      throw new TypeError('mgetConcurrency must be a positive integer');
+    }
+    if (this.scanParallelism !== undefined && (!Number.isInteger(this.scanParallelism) || this.scanParallelism < 1)) {
+      throw new TypeError('scanParallelism must be a positive integer');
+    }
+    if (options.cache) {
+      const { maxEntries = DEFAULT_CACHE_ENTRIES, ttlMs = DEFAULT_CACHE_TTL } = options.cache;
+      if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+        throw new TypeError('cache.maxEntries must be a positive integer');
+      }
+      if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+        throw new TypeError('cache.ttlMs must be a positive number of milliseconds');
+      }
+    }
+
+    this.userIdField = options.userIdField;
+    this.userIdResolver = options.getUserId;
+    this.userIndexPrefix = options.userIndexPrefix || `user-sessions:${this.prefix}`;
+    this.maxSessionsPerUser = options.maxSessionsPerUser;
+    this.evictionPolicy = options.evictionPolicy || 'oldest';
+
+    if (this.maxSessionsPerUser !== undefined) {
+      if (!Number.isInteger(this.maxSessionsPerUser) || this.maxSessionsPerUser < 1) {
+        throw new TypeError('maxSessionsPerUser must be a positive integer');
+      }
+      if (!this.indexesUsers()) {
+        throw new TypeError('maxSessionsPerUser requires getUserId or userIdField');
+      }
+    }
+    if (this.evictionPolicy !== 'oldest' && this.evictionPolicy !== 'lru') {
+      throw new TypeError(`Invalid eviction policy: ${this.evictionPolicy}`);
+    }
+
+    // A merge strategy only makes sense with optimistic concurrency, so it turns it on
+    this.concurrency = options.concurrency || (options.mergeStrategy ? 'optimistic' : 'none');
+    this.onConflict = options.onConflict;
+    this.merge = options.mergeStrategy ? resolveMergeStrategy(options.mergeStrategy) : undefined;
+
+    if (this.concurrency !== 'none' && this.concurrency !== 'optimistic') {
+      throw new TypeError(`Invalid concurrency mode: ${this.concurrency}`);
+    }
+    if (this.merge && this.concurrency !== 'optimistic') {
+      throw new TypeError('mergeStrategy requires optimistic concurrency');
+    }
+    if (this.merge && this.onConflict) {
+      throw new TypeError('Use either mergeStrategy or onConflict, not both');
+    }
+    if (this.concurrency === 'optimistic' && this.storage === 'hash') {
+      throw new TypeError('Optimistic concurrency is only supported with string storage');
+    }
   }
 
   /**
@@ -87,6 +635,224 @@ export class ValkeyStore extends Store {
   }
 
 
+  /**
+   * Run a store operation through the circuit breaker and under the retry policy,
+   * emitting 'retry' before each new attempt
+   */
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await (this.breaker ? this.breaker.execute(fn) : fn());
+      } catch (error) {
+        if (!this.retry || attempt >= this.retry.maxAttempts || !this.retry.isRetryable(error)) {
+          throw error;
+        }
+
+        const event: RetryEvent = { operation, attempt, delayMs: retryDelay(attempt, this.retry), error };
+        this.emit('retry', event);
+        await new Promise(resolve => setTimeout(resolve, event.delayMs));
+      }
+    }
+  }
+
+  /**
+   * Run an operation that is not retried through the circuit breaker, so it fails
+   * fast with StoreUnavailableError while the circuit is open
+   */
+  private guarded<T>(fn: () => Promise<T>): Promise<T> {
+    return this.breaker ? this.breaker.execute(fn) : fn();
+  }
+
+  /**
+   * Run a store operation against Valkey, or against the fallback store while Valkey is
+   * unreachable. The first outage error switches to the fallback and starts probing.
+   */
+  private async degradable<T>(operation: string, primary: () => Promise<T>, secondary: () => Promise<T>): Promise<T> {
+    if (!this.fallback) {
+      return this.run(operation, primary);
+    }
+
+    if (this.isDegraded) {
+      return secondary();
+    }
+
+    try {
+      return await this.run(operation, primary);
+    } catch (error) {
+      if (!(error instanceof StoreUnavailableError) && !isOutage(error)) {
+        throw error;
+      }
+
+      this.enterDegraded(error);
+      return secondary();
+    }
+  }
+
+  /**
+   * Write a session to Valkey and update the indexes and caches that depend on it
+   */
+  private async saveSession(sid: string, key: string, session: SessionData, ttl: number): Promise<void> {
+    await this.writeSession(key, session, ttl);
+    this.markWritten(key);
+    await this.indexSession(sid, session, ttl);
+    await this.invalidate([key]);
+  }
+
+  /**
+   * Keep reading a session from the primary until replicas have had time to catch up
+   * with a write to it
+   */
+  private markWritten(key: string): void {
+    if (!this.readClient || this.readYourWritesMs === 0) {
+      return;
+    }
+
+    this.recentWrites.delete(key);
+    this.recentWrites.set(key, Date.now() + this.readYourWritesMs);
+
+    if (this.recentWrites.size > MAX_TRACKED_SESSIONS) {
+      this.recentWrites.delete(this.recentWrites.keys().next().value!);
+    }
+  }
+
+  /**
+   * Client to read a session from: the read client, unless it was written recently
+   */
+  private readerFor(key: string): ValkeyClient {
+    if (!this.readClient) {
+      return this.client;
+    }
+
+    const until = this.recentWrites.get(key);
+    if (until === undefined) {
+      return this.readClient;
+    }
+    if (until > Date.now()) {
+      return this.client;
+    }
+
+    this.recentWrites.delete(key);
+    return this.readClient;
+  }
+
+  /**
+   * Read a session through `readerFor`, checking the primary when a replica does not have
+   * it: it may have been created moments ago by another instance
+   */
+  private async readRouted(key: string): Promise<SessionData | null> {
+    const reader = this.readerFor(key);
+    const session = await this.readSession(key, reader);
+
+    return session === null && reader !== this.client ? this.readSession(key, this.client) : session;
+  }
+
+  /**
+   * Client for reads that span many sessions (all, ids, length)
+   */
+  private get reader(): ValkeyClient {
+    return this.readClient || this.client;
+  }
+
+  /**
+   * Save (or with null, destroy) a session in the fallback store, remembering it for replay
+   */
+  private async saveFallback(sid: string, session: SessionData | null): Promise<void> {
+    if (session) {
+      await callStore<void>(this.fallback!, 'set', sid, session);
+    } else {
+      await callStore<void>(this.fallback!, 'destroy', sid);
+    }
+
+    this.fallbackWrites.add(sid);
+    if (this.fallbackReplay) {
+      this.pendingReplay.set(sid, session);
+    }
+  }
+
+  private enterDegraded(error: unknown): void {
+    if (this.isDegraded) {
+      return;
+    }
+
+    this.isDegraded = true;
+    this.emit('degraded', error);
+
+    this.probeTimer = setInterval(() => this.probe(), this.fallbackProbeMs);
+    this.probeTimer.unref();
+  }
+
+  /**
+   * Check whether Valkey answers again; if so, replay buffered writes and leave degraded mode
+   */
+  private async probe(): Promise<void> {
+    if (!this.probeTimer) {
+      return;
+    }
+
+    const timer = this.probeTimer;
+    this.probeTimer = undefined;
+
+    let replayed = 0;
+    try {
+      await this.client.ping();
+
+      // Writes that arrive during a replay are still sent to the fallback, so repeat until none are left
+      while (this.pendingReplay.size > 0) {
+        const writes = Array.from(this.pendingReplay);
+        for (const [sid, session] of writes) {
+          const key = this.key(sid);
+          if (session) {
+            await this.run('set', () => this.saveSession(sid, key, session, this.getTTL(session)));
+          } else {
+            await this.run('destroy', () => this.removeSession(sid, key));
+          }
+
+          if (this.pendingReplay.get(sid) === session) {
+            this.pendingReplay.delete(sid);
+          }
+          replayed++;
+        }
+      }
+    } catch (error) {
+      // Still unreachable, or the replay failed partway: stay degraded and try again later
+      if (this.closing) {
+        clearInterval(timer);
+      } else {
+        this.probeTimer = timer;
+      }
+      return;
+    }
+
+    clearInterval(timer);
+    this.isDegraded = false;
+    this.emit('recovered', { replayed });
+    await this.purgeFallback();
+  }
+
+  /**
+   * Remove the sessions written during the outage from the fallback store, so a later
+   * outage does not serve them after they changed or were destroyed in Valkey
+   */
+  private async purgeFallback(): Promise<void> {
+    const sids = Array.from(this.fallbackWrites);
+    this.fallbackWrites.clear();
+
+    for (const sid of sids) {
+      // Written again by a new outage since: that copy is current
+      if (this.fallbackWrites.has(sid)) {
+        continue;
+      }
+
+      try {
+        await callStore<void>(this.fallback!, 'destroy', sid);
+      } catch (error) {
+        if (this.logErrors) {
+          console.warn('ValkeyStore: Failed to remove a session from the fallback store:', sid, error);
+        }
+      }
+    }
+  }
+
   /**
    * Handle errors with optional logging
    */
@@ -113,33 +879,14 @@ export class ValkeyStore extends Store {
     const fn = (cb: (err: any, session?: SessionData | null) => void) => {
       const key = this.key(sid);
 
-      this.client.get(key)
-        .then((data) => {
-          if (!data) {
-            return cb(null, null);
-          }
-
-          try {
-            const parseResult = this.serializer.parse(typeof data === 'string' ? data : data.toString());
-
-            // Handle both sync and async parse results
-            if (parseResult instanceof Promise) {
-              parseResult
-                .then(session => cb(null, session))
-                .catch(error => this.handleError(error as Error, cb));
-            } else {
-              cb(null, parseResult);
-            }
-          } catch (error) {
-            this.handleError(error as Error, cb);
-          }
-        })
-        .catch((error) => {
-          this.handleError(error, cb);
-        });
+      this.degradable('get', () => this.readRouted(key), () => callStore<SessionData | null>(this.fallback!, 'get', String(sid)))
+        .then(
+          (session) => cb(null, session),
+          (error) => this.handleError(error as Error, cb)
+        );
     };
 
-    return optionalCb<SessionData | null>(fn, callback as any, this);
+    return optionalCb<SessionData | null>(this.tracked(fn), callback as any, this);
   }
 
   /**
@@ -152,35 +899,14 @@ export class ValkeyStore extends Store {
       const key = this.key(sid);
       const ttl = this.getTTL(session);
 
-      // If TTL is 0 or negative (expired), delete the session instead
-      if (ttl <= 0 && !this.disableTTL) {
-        this.client.del([key])
-          .then(() => cb())
-          .catch((error) => {
-            this.handleError(error, cb);
-          });
-        return;
-      }
-
-      try {
-        const sessionData = this.serializer.stringify(session);
-
-        // Set with or without expiry based on TTL
-        const setOptions = ttl > 0 ? {
-          expiry: { type: TimeUnit.Seconds, count: ttl }
-        } : undefined;
-
-        this.client.set(key, sessionData, setOptions)
-          .then(() => cb())
-          .catch((error) => {
-            this.handleError(error, cb);
-          });
-      } catch (error) {
-        this.handleError(error as Error, cb);
-      }
+      this.degradable('set', () => this.saveSession(String(sid), key, session, ttl), () => this.saveFallback(String(sid), session))
+        .then(
+          () => cb(),
+          (error) => this.handleError(error as Error, cb)
+        );
     };
 
-    return optionalCb<void>(fn as any, callback as any, this) as Promise<void>;
+    return optionalCb<void>(this.tracked(fn as any), callback as any, this) as Promise<void>;
   }
 
   /**
@@ -192,14 +918,14 @@ export class ValkeyStore extends Store {
     const fn = (cb: (err?: any) => void) => {
       const key = this.key(sid);
 
-      this.client.del([key])
-        .then(() => cb())
-        .catch((error) => {
-          this.handleError(error, cb);
-        });
+      this.degradable('destroy', () => this.removeSession(String(sid), key), () => this.saveFallback(String(sid), null))
+        .then(
+          () => cb(),
+          (error) => this.handleError(error as Error, cb)
+        );
     };
 
-    return optionalCb<void>(fn as any, callback as any, this) as Promise<void>;
+    return optionalCb<void>(this.tracked(fn as any), callback as any, this) as Promise<void>;
   }
 
   /**
@@ -217,14 +943,38 @@ export class ValkeyStore extends Store {
       const key = this.key(sid);
       const ttl = this.getTTL(session);
 
-      this.client.expire(key, ttl)
+      if (this.touchedRecently(session, ttl)) {
+        this.skippedTouches++;
+        cb();
+        return;
+      }
+
+      this.degradable('touch', async () => {
+        let exists: boolean;
+
+        if (this.touchAfter > 0 && ttl > 0) {
+          exists = await this.stampTouch(key, session, ttl);
+          // Cached copies still carry the previous stamp
+          await this.invalidate([key]);
+        } else {
+          exists = await this.send(batch => batch.expire(key, ttl), () => this.client.expire(key, ttl));
+        }
+
+        if (exists) {
+          await this.indexSession(String(sid), session, ttl);
+        }
+      }, async () => {
+        if (this.fallback!.touch) {
+          await callStore<void>(this.fallback!, 'touch', String(sid), session);
+        }
+      })
         .then(() => cb())
         .catch((error) => {
           this.handleError(error, cb);
         });
     };
 
-    return optionalCb<void>(fn as any, callback as any, this) as Promise<void>;
+    return optionalCb<void>(this.tracked(fn as any), callback as any, this) as Promise<void>;
   }
 
   /**
@@ -239,47 +989,9 @@ export class ValkeyStore extends Store {
 
       try {
         // Process scan results in batches (simpler, faster approach)
-        await this.scanAndProcessKeys(pattern, async (keys) => {
-          if (keys.length === 0) return;
-
-          // Use MGET for batch retrieval - works in both standalone and cluster
-          const values = await this.client.mget(keys);
-
-          // Process the values
-          const parsePromises: Promise<void>[] = [];
-
-          values.forEach((data, index) => {
-            if (data) {
-              const sid = keys[index].replace(this.prefix, '');
-
-              try {
-                const parseResult = this.serializer.parse(data as string);
-
-                if (parseResult instanceof Promise) {
-                  parsePromises.push(
-                    parseResult
-                      .then(session => { sessions[sid] = session; })
-                      .catch(error => {
-                        if (this.logErrors) {
-                          console.warn('ValkeyStore: Invalid session data for key:', keys[index]);
-                        }
-                      })
-                  );
-                } else {
-                  sessions[sid] = parseResult;
-                }
-              } catch (error) {
-                // Skip invalid sessions
-                if (this.logErrors) {
-                  console.warn('ValkeyStore: Invalid session data for key:', keys[index]);
-                }
-              }
-            }
-          });
-
-          // Wait for all async parsing to complete for this batch
-          await Promise.all(parsePromises);
-        });
+        await this.guarded(() => this.scanAndProcessKeys(pattern, async (keys) => {
+          Object.assign(sessions, await this.loadSessions(keys, this.reader));
+        }, false, this.reader));
 
         cb(null, sessions);
       } catch (error) {
@@ -287,7 +999,59 @@ export class ValkeyStore extends Store {
       }
     };
 
-    return optionalCb<{ [sid: string]: SessionData } | null>(fn, callback as any, this);
+    return optionalCb<{ [sid: string]: SessionData } | null>(this.tracked(fn), callback as any, this);
+  }
+
+  /**
+   * Stream `[sid, session]` pairs one scan batch at a time. Only the current batch
+   * is held in memory, and scanning pauses while the consumer is busy.
+   */
+  async *iterate(): AsyncGenerator<[string, SessionData]> {
+    const batches = this.scanBatches(`${this.prefix}*`);
+
+    while (true) {
+      const batch = await this.guarded(async () => {
+        const next = await batches.next();
+        return next.done ? null : this.loadSessions(next.value);
+      });
+      if (!batch) {
+        return;
+      }
+
+      for (const sid of Object.keys(batch)) {
+        yield [sid, batch[sid]];
+      }
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<[string, SessionData]> {
+    return this.iterate();
+  }
+
+  /**
+   * Get one page of sessions. Pass the returned `nextCursor` back to continue;
+   * it is `null` once every session has been listed.
+   */
+  async page(options?: PageOptions): Promise<SessionPage>;
+  async page(options: PageOptions, callback: (err: any, page?: SessionPage) => void): Promise<void>;
+  async page(options: PageOptions = {}, callback?: (err: any, page?: SessionPage) => void): Promise<SessionPage | void> {
+    const fn = (cb: (err: any, page?: SessionPage) => void) => {
+      const limit = options.limit ?? 100;
+
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new TypeError('Page limit must be a positive integer');
+      }
+
+      const position = this.decodeCursor(options.cursor);
+
+      this.guarded(() => this.scanPage(position, limit))
+        .then(
+          (page) => cb(null, page),
+          (error) => this.handleError(error as Error, cb)
+        );
+    };
+
+    return optionalCb<SessionPage>(this.tracked(fn), callback as any, this);
   }
 
   /**
@@ -299,15 +1063,25 @@ export class ValkeyStore extends Store {
     const fn = (cb: (err: any, length?: number) => void) => {
       const pattern = `${this.prefix}*`;
 
-      this.scanKeys(pattern, (keys) => {
+      if (this.expiryIndexKey) {
+        const expiryIndexKey = this.expiryIndexKey;
+        this.guarded(() => this.reader.zcount(expiryIndexKey, { value: Date.now(), isInclusive: false }, InfBoundary.PositiveInfinity))
+          .then(
+            (count) => cb(null, count),
+            (error) => this.handleError(error, cb)
+          );
+        return;
+      }
+
+      this.guarded(() => this.scanKeys(pattern, (keys) => {
         cb(null, keys.length);
-      })
+      }, this.reader))
       .catch((error) => {
         this.handleError(error, cb);
       });
     };
 
-    return optionalCb<number>(fn, callback as any, this);
+    return optionalCb<number>(this.tracked(fn), callback as any, this);
   }
 
   /**
@@ -319,121 +1093,1653 @@ export class ValkeyStore extends Store {
     const fn = (cb: (err: any, ids?: string[]) => void) => {
       const pattern = `${this.prefix}*`;
 
-      this.scanKeys(pattern, (keys) => {
+      if (this.expiryIndexKey) {
+        const expiryIndexKey = this.expiryIndexKey;
+        this.guarded(() => this.indexedIds(expiryIndexKey, this.reader))
+          .then(
+            (ids) => cb(null, ids),
+            (error) => this.handleError(error, cb)
+          );
+        return;
+      }
+
+      this.guarded(() => this.scanKeys(pattern, (keys) => {
         const sessionIds = keys.map(key => key.replace(this.prefix, ''));
         cb(null, sessionIds);
-      })
+      }, this.reader))
       .catch((error) => {
         this.handleError(error, cb);
       });
     };
 
-    return optionalCb<string[]>(fn, callback as any, this);
+    return optionalCb<string[]>(this.tracked(fn), callback as any, this);
   }
 
   /**
-   * Clear all sessions
+   * Clear all sessions, one scan batch at a time with UNLINK, resolving with the number
+   * of sessions deleted (or found, with `dryRun`). Aborting `signal` stops before the
+   * next batch and resolves with the count so far.
    */
-  async clear(): Promise<void>;
-  async clear(callback: (err?: any) => void): Promise<void>;
-  async clear(callback?: (err?: any) => void): Promise<void> {
-    const fn = (cb: (err?: any) => void) => {
+  async clear(options?: ClearOptions): Promise<number>;
+  async clear(callback: (err?: any, count?: number) => void): Promise<void>;
+  async clear(options: ClearOptions, callback: (err?: any, count?: number) => void): Promise<void>;
+  async clear(optionsOrCallback?: ClearOptions | ((err?: any, count?: number) => void), callback?: (err?: any, count?: number) => void): Promise<number | void> {
+    if (typeof optionsOrCallback === 'function') {
+      callback = optionsOrCallback;
+      optionsOrCallback = undefined;
+    }
+
+    const { dryRun = false, onProgress, signal } = optionsOrCallback || {};
+
+    const fn = (cb: (err?: any, count?: number) => void) => {
       const pattern = `${this.prefix}*`;
+      const progress: ClearProgress = { scanned: 0, deleted: 0 };
+
+      const deleteBatch = async (keys: string[]) => {
+        signal?.throwIfAborted();
+        progress.scanned += keys.length;
+
+        if (!dryRun) {
+          keys.forEach(key => this.loaded.delete(key));
+          progress.deleted += await this.unlinkKeys(keys);
+          const stamps = this.stampKeys(keys);
+          if (stamps.length > 0) {
+            await this.unlinkKeys(stamps);
+          }
+          await this.untrack(keys.map(key => key.slice(this.prefix.length)));
+        }
+
+        onProgress?.({ ...progress });
+      };
 
-      this.scanKeys(pattern, (keys) => {
-        if (keys.length === 0) {
-          cb();
-          return;
+      const finish = async () => {
+        if (dryRun) {
+          return progress.scanned;
         }
 
-        this.client.del(keys)
-          .then(() => cb())
-          .catch((error) => {
+        if (this.expiryIndexKey) {
+          await this.client.unlink([this.expiryIndexKey]);
+        }
+        if (this.indexesUsers()) {
+          // User indexes (and their eviction order keys) only list sessions just deleted
+          await this.scanAndProcessKeys(`${this.userIndexPrefix}*`, async (keys) => {
+            await this.unlinkKeys(keys);
+          }, true);
+        }
+        await this.invalidate();
+        return progress.deleted;
+      };
+
+      Promise.resolve()
+        .then(() => signal?.throwIfAborted())
+        .then(() => this.guarded(() => this.scanAndProcessKeys(pattern, deleteBatch, true).then(finish)))
+        .then(
+          (count) => cb(null, count),
+          (error) => {
+            // Cancellation is not a failure: report what was done before it
+            if (signal?.aborted && error === signal.reason) {
+              this.invalidate().then(() => cb(null, dryRun ? progress.scanned : progress.deleted));
+              return;
+            }
             this.handleError(error, cb);
-          });
-      })
-      .catch((error) => {
-        this.handleError(error, cb);
-      });
+          }
+        );
     };
 
-    return optionalCb<void>(fn as any, callback as any, this) as Promise<void>;
+    return optionalCb<number>(this.tracked(fn), callback as any, this);
   }
 
   /**
-   * Get TTL for session
+   * Read and parse a session from either storage layout
    */
-  private getTTL(session: SessionData): number {
-    if (this.disableTTL) {
-      return -1; // Never expire
+  private async readSession(key: string, client: ValkeyClient = this.client): Promise<SessionData | null> {
+    const stored = await this.fetchCached(key, client);
+    if (!stored) {
+      this.loaded.delete(key);
+      return null;
     }
 
-    // Capture timestamp once to avoid race conditions
-    const now = Date.now();
+    if (stored.state.fields || stored.state.fingerprint) {
+      this.remember(key, { fields: stored.state.fields, fingerprint: stored.state.fingerprint });
+    }
 
-    // Check if cookie has expires field (Date or string)
-    if (session.cookie && session.cookie.expires) {
-      const expires = session.cookie.expires instanceof Date
-        ? session.cookie.expires.getTime()
-        : new Date(session.cookie.expires).getTime();
+    return this.upgrade(key, stored.session, stored.state.version);
+  }
 
-      const ttl = Math.floor((expires - now) / 1000);
-      return Math.max(0, ttl); // Ensure non-negative TTL
+  /**
+   * Fetch a session through the local read cache, if enabled
+   */
+  private async fetchCached(key: string, client: ValkeyClient = this.client): Promise<{ session: any; state: LoadedSession } | null> {
+    if (!this.cache) {
+      return this.fetchSession(key, client);
     }
 
-    // Fallback to maxAge
-    if (session.cookie && session.cookie.maxAge) {
-      return Math.floor(session.cookie.maxAge / 1000);
+    const cached = this.cache.get(key);
+    if (cached) {
+      const fields = cached.state.fields && { ...cached.state.fields };
+      return { session: withTouch(await this.parseCached(cached), cached.state.touched), state: { ...cached.state, fields } };
     }
 
-    // Fallback to configured TTL
-    return typeof this.ttl === 'function' ? this.ttl(session) : this.ttl;
+    const epoch = this.cache.epoch;
+    const stored = await this.fetchSession(key, client);
+
+    if (stored) {
+      const fields = stored.state.fields && { ...stored.state.fields };
+      this.cache.set(key, { payload: stored.payload, state: { ...stored.state, fields } }, epoch);
+    }
+
+    return stored;
   }
 
   /**
-   * Scan for keys matching pattern (collects all keys)
+   * Rebuild a session object from its cached serialized form
    */
-  private async scanKeys(pattern: string, onComplete: (keys: string[]) => void): Promise<void> {
-    const keys: string[] = [];
-    // Check if we're dealing with a cluster client
-    const isCluster = this.client instanceof GlideClusterClient;
-    let cursor: any = isCluster ? new ClusterScanCursor() : '0';
+  private async parseCached(cached: CachedSession): Promise<any> {
+    if (!cached.state.fields) {
+      return this.parsePayload(cached.payload!);
+    }
 
-    do {
-      const [nextCursor, scanKeys] = await this.client.scan(cursor, {
-        match: pattern,
-        count: this.scanCount
+    const session: any = {};
+    for (const [name, raw] of Object.entries(cached.state.fields)) {
+      session[name] = await this.parsePayload(raw);
+    }
+    return session;
+  }
+
+  /**
+   * Drop sessions from the local cache and tell other instances to do the same.
+   * Without keys, the whole cache is dropped.
+   */
+  private async invalidate(keys?: string[]): Promise<void> {
+    if (!this.cache) {
+      return;
+    }
+
+    const messages = keys
+      ? keys.map(key => `${this.instanceId}:${key.slice(this.prefix.length)}`)
+      : [this.instanceId];
+
+    if (keys) {
+      keys.forEach(key => this.cache!.delete(key));
+    } else {
+      this.cache.clear();
+    }
+
+    try {
+      await Promise.all(messages.map(message => this.client.publish(message, this.cacheChannel)));
+    } catch (error) {
+      // Other instances fall back to the cache TTL
+      if (this.logErrors) {
+        console.warn('ValkeyStore: Failed to publish cache invalidation:', error);
+      }
+    }
+  }
+
+  /**
+   * Apply an invalidation message published by another instance
+   */
+  private onInvalidation(msg: PubSubMsg): void {
+    const message = msg.message.toString();
+    const separator = message.indexOf(':');
+    const origin = separator === -1 ? message : message.slice(0, separator);
+
+    if (!this.cache || origin === this.instanceId) {
+      return;
+    }
+
+    if (separator === -1) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(`${this.prefix}${message.slice(separator + 1)}`);
+    }
+  }
+
+  /**
+   * Fetch and parse a stored session without migrating it or updating any bookkeeping
+   */
+  private async fetchSession(key: string, client: ValkeyClient = this.client): Promise<{ session: any; state: LoadedSession; payload?: Payload } | null> {
+    if (this.storage === 'hash') {
+      const stored = await this.fetchHash(key, client);
+      return stored && { session: stored.session, state: { fields: stored.fields } };
+    }
+
+    let data: GlideString | null;
+    let touched: number | undefined;
+
+    if (this.touchAfter > 0) {
+      // Touches record their time next to the session, in the same slot
+      const [value, stamp] = await client.mget([key, this.touchKey(key)], { decoder: Decoder.Bytes });
+      data = value;
+      touched = stamp ? Number(stamp.toString()) : undefined;
+    } else {
+      data = await client.get(key, { decoder: Decoder.Bytes });
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const payload = await this.decodeValue(data, key);
+
+    // Handle both sync and async parse results
+    const session = withTouch(await this.parsePayload(payload), touched);
+
+    if (this.merge) {
+      this.rememberBase(this.version(data), payload);
+    }
+
+    return {
+      session,
+      payload,
+      state: {
+        // The last-touch stamp changes without the session changing, so it is left out
+        fingerprint: this.dirtyTracking ? this.fingerprint(this.touchAfter > 0 ? this.serializer.stringify(omitTouch(session)) : payload) : undefined,
+        version: this.concurrency === 'optimistic' ? this.version(data) : undefined,
+        touched
+      }
+    };
+  }
+
+  /**
+   * Serialize and write a session, deleting it instead when it is already expired
+   */
+  private async writeSession(key: string, session: SessionData, ttl: number): Promise<void> {
+    // If TTL is 0 or negative (expired), delete the session instead
+    if (ttl <= 0 && !this.disableTTL) {
+      this.loaded.delete(key);
+      const keys = [key, ...this.stampKeys([key])];
+      await this.send(batch => batch.del(keys), () => this.client.del(keys));
+      return;
+    }
+
+    if (this.concurrency === 'optimistic') {
+      await this.writeVersioned(key, session, ttl);
+      return;
+    }
+
+    const target = session;
+
+    session = this.withSchemaVersion(session);
+
+    if (this.storage === 'hash') {
+      this.stamped(target, await this.writeHash(key, session, ttl));
+      return;
+    }
+
+    const { payload: sessionData, fingerprint, stamp } = this.serializeSession(session);
+
+    if (fingerprint && this.loaded.get(key)?.fingerprint === fingerprint && await this.refreshTTL(key, ttl)) {
+      this.skippedWrites++;
+      return;
+    }
+
+    // Set with or without expiry based on TTL
+    const setOptions = ttl > 0 ? {
+      expiry: { type: TimeUnit.Seconds, count: ttl }
+    } : undefined;
+
+    const value = await this.encodeValue(sessionData, key);
+    await this.send(batch => batch.set(key, value, setOptions), () => this.client.set(key, value, setOptions));
+
+    if (fingerprint) {
+      this.remember(key, { fingerprint });
+    }
+    this.stamped(target, stamp);
+  }
+
+  /**
+   * Serialize a session for string storage. With `touchAfter` the payload is stamped with
+   * the current time, while the fingerprint covers only the session content.
+   */
+  private serializeSession(session: SessionData): { payload: Payload; fingerprint?: string; stamp?: number } {
+    if (this.touchAfter === 0) {
+      const payload = this.serializer.stringify(session);
+      return { payload, fingerprint: this.dirtyTracking ? this.fingerprint(payload) : undefined };
+    }
+
+    const content = omitTouch(session);
+    const stamp = Date.now();
+
+    return {
+      payload: this.serializer.stringify({ ...content, [TOUCH_FIELD]: stamp }),
+      fingerprint: this.dirtyTracking ? this.fingerprint(this.serializer.stringify(content)) : undefined,
+      stamp
+    };
+  }
+
+  /**
+   * Record on the caller's session object when its TTL was refreshed
+   */
+  private stamped(session: SessionData, stamp?: number): void {
+    if (stamp !== undefined) {
+      (session as any)[TOUCH_FIELD] = stamp;
+    }
+  }
+
+  /**
+   * Whether a touch can be skipped: the session's TTL was refreshed less than
+   * `touchAfter` seconds ago, and less than half its lifetime ago
+   */
+  private touchedRecently(session: SessionData, ttl: number): boolean {
+    const last = (session as any)[TOUCH_FIELD];
+    if (this.touchAfter === 0 || ttl <= 0 || typeof last !== 'number') {
+      return false;
+    }
+
+    const elapsed = Date.now() - last;
+    return elapsed >= 0 && elapsed < Math.min(this.touchAfter, ttl / 2) * 1000;
+  }
+
+  /**
+   * Refresh a session's TTL together with its last-touch stamp, without re-creating a
+   * session that no longer exists. Resolves with whether the session exists.
+   */
+  private async stampTouch(key: string, session: SessionData, ttl: number): Promise<boolean> {
+    const stamp = Date.now();
+
+    if (this.storage === 'hash') {
+      const value = this.serializer.stringify(stamp) as Payload;
+      const updated = await this.client.invokeScript(HASH_UPDATE_SCRIPT, {
+        keys: [key],
+        args: [String(ttl), '1', TOUCH_FIELD, await this.encodeValue(value, fieldContext(key, TOUCH_FIELD))]
       });
 
-      keys.push(...scanKeys.map(k => typeof k === 'string' ? k : k.toString()));
-      cursor = nextCursor;
+      const fields = this.loaded.get(key)?.fields;
+      if (updated === 1 && fields) {
+        fields[TOUCH_FIELD] = value;
+      }
+      this.stamped(session, updated === 1 ? stamp : undefined);
+      return updated === 1;
+    }
 
-      // Handle both string (standalone) and ClusterScanCursor (cluster) types
-    } while (!this.isCursorFinished(cursor));
+    // The stamp lives in its own key: rewriting the value would undo changes saved by others
+    const exists = await this.client.invokeScript(TOUCH_STAMP_SCRIPT, {
+      keys: [key, this.touchKey(key)],
+      args: [String(ttl), String(stamp)]
+    });
+    if (exists !== 1) {
+      return false;
+    }
 
-    onComplete(keys);
+    this.stamped(session, stamp);
+    return true;
   }
 
   /**
-   * Scan and process keys in batches
+   * Write a session only if nobody else has written it since it was read. On conflict
+   * the merge strategy or `onConflict` handler can combine both versions, which is
+   * retried against the newly stored version; otherwise a SessionConflictError is thrown.
+   * On success the caller's session object carries the new version for subsequent saves.
    */
-  private async scanAndProcessKeys(pattern: string, onBatch: (keys: string[]) => Promise<void>): Promise<void> {
-    // Check if we're dealing with a cluster client
-    const isCluster = this.client instanceof GlideClusterClient;
-    let cursor: any = isCluster ? new ClusterScanCursor() : '0';
+  private async writeVersioned(key: string, session: SessionData, ttl: number): Promise<void> {
+    const sid = key.slice(this.prefix.length);
+    let { [VERSION_FIELD]: expected, ...mine } = session as any;
 
-    do {
-      const [nextCursor, scanKeys] = await this.client.scan(cursor, {
-        match: pattern,
-        count: this.scanCount
+    for (let attempt = 0; ; attempt++) {
+      const data = this.withSchemaVersion(mine);
+      const { payload: sessionData, fingerprint, stamp } = this.serializeSession(data);
+
+      if (fingerprint && attempt === 0 && this.loaded.get(key)?.fingerprint === fingerprint && await this.refreshTTL(key, ttl)) {
+        this.skippedWrites++;
+        return;
+      }
+
+      const value = await this.encodeValue(sessionData, key);
+      const written = await this.client.invokeScript(COMPARE_AND_SET_SCRIPT, {
+        keys: [key],
+        args: [expected || '', value, String(ttl > 0 ? ttl : 0)]
       });
 
-      if (scanKeys.length > 0) {
-        const keys = scanKeys.map(k => typeof k === 'string' ? k : k.toString());
-        await onBatch(keys);
+      if (written === 1) {
+        (session as any)[VERSION_FIELD] = this.version(value);
+        if (this.merge) {
+          this.rememberBase((session as any)[VERSION_FIELD], sessionData);
+        }
+        if (fingerprint) {
+          this.remember(key, { fingerprint });
+        }
+        this.stamped(session, stamp);
+        return;
       }
 
-      cursor = nextCursor;
+      this.loaded.delete(key);
+
+      if (!(this.merge || this.onConflict) || attempt >= MAX_CONFLICT_RETRIES) {
+        throw new SessionConflictError(sid);
+      }
+
+      const stored = await this.fetchSession(key);
+      const theirs = stored ? (await this.migrate(stored.session)).session : null;
+
+      if (this.merge) {
+        // A session deleted in the meantime (e.g. logged out elsewhere) is not re-created
+        if (!theirs) {
+          throw new SessionConflictError(sid);
+        }
+        mine = await this.merge(await this.baseAt(expected), mine, theirs);
+      } else {
+        mine = await this.onConflict!(mine, theirs, sid);
+      }
+      expected = stored?.state.version;
+    }
+  }
+
+  /**
+   * Stamp a session with the schema version to store: ours, or the one it was read with
+   * when that is newer, so that an instance running an older release never downgrades it
+   */
+  private withSchemaVersion<T extends object>(session: T): T {
+    if (this.schemaVersion === undefined) {
+      return session;
+    }
+
+    const stored = Number((session as any)[SCHEMA_VERSION_FIELD] ?? 0);
+    return { ...session, [SCHEMA_VERSION_FIELD]: Math.max(stored, this.schemaVersion) };
+  }
+
+  /**
+   * Bring a session written under an older schema version up to date by applying
+   * each registered migration in order, optionally writing the result back.
+   * Sessions stamped with a newer version than ours are returned untouched.
+   */
+  private async upgrade(key: string, session: any, version?: string): Promise<any> {
+    const migrated = await this.migrate(session);
+
+    if (version !== undefined && migrated.session && typeof migrated.session === 'object') {
+      migrated.session[VERSION_FIELD] = version;
+    }
+
+    if (migrated.upgraded && this.writeBackMigrations) {
+      try {
+        await this.writeSession(key, migrated.session, this.getTTL(migrated.session));
+        await this.invalidate([key]);
+      } catch (error) {
+        // The upgraded session is still usable; it will be persisted on the next save
+        if (this.logErrors) {
+          console.warn('ValkeyStore: Failed to write back migrated session for key:', key, error);
+        }
+      }
+    }
+
+    return migrated.session;
+  }
+
+  /**
+   * Strip the schema version stamp and apply pending migrations. A stamp newer than ours
+   * stays on the session so that saving it does not downgrade it.
+   */
+  private async migrate(session: any): Promise<{ session: any; upgraded: boolean }> {
+    if (this.schemaVersion === undefined || !session || typeof session !== 'object') {
+      return { session, upgraded: false };
+    }
+
+    const stored = Number(session[SCHEMA_VERSION_FIELD] ?? 0);
+    if (stored > this.schemaVersion) {
+      return { session, upgraded: false };
+    }
+
+    delete session[SCHEMA_VERSION_FIELD];
+    if (!(stored < this.schemaVersion)) {
+      return { session, upgraded: false };
+    }
+
+    for (let version = stored + 1; version <= this.schemaVersion; version++) {
+      const migration = this.migrations[version];
+      if (migration) {
+        session = await migration(session);
+      }
+    }
+
+    return { session, upgraded: true };
+  }
+
+  /**
+   * Fetch a hash-stored session along with its raw field values
+   */
+  private async fetchHash(key: string, client: ValkeyClient = this.client): Promise<{ session: SessionData; fields: Record<string, Payload> } | null> {
+    const entries = await client.hgetall(key, { decoder: Decoder.Bytes });
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const session: any = {};
+    const fields: Record<string, Payload> = {};
+
+    for (const { field, value } of entries) {
+      const name = field.toString();
+      const raw = await this.decodeValue(value, fieldContext(key, name));
+      fields[name] = raw;
+      session[name] = await this.parsePayload(raw);
+    }
+
+    return { session, fields };
+  }
+
+  /**
+   * Write a hash-stored session, sending only the fields that changed since it was last loaded
+   */
+  private async writeHash(key: string, session: SessionData, ttl: number): Promise<number | undefined> {
+    const fields = this.toFields(session);
+    const previous = this.loaded.get(key)?.fields;
+
+    // With touchAfter the last-touch field is rewritten on every write but does not count as a change
+    const stamp = this.touchAfter > 0 ? Date.now() : undefined;
+    const stampValue = stamp !== undefined ? this.serializer.stringify(stamp) as Payload : undefined;
+    delete fields[TOUCH_FIELD];
+
+    if (previous) {
+      const changed: GlideString[] = [];
+      for (const [name, value] of Object.entries(fields)) {
+        if (!samePayload(previous[name], value)) {
+          changed.push(name, await this.encodeValue(value, fieldContext(key, name)));
+        }
+      }
+      const removed = Object.keys(previous).filter(name => !(name in fields) && !(stamp !== undefined && name === TOUCH_FIELD));
+
+      if (this.dirtyTracking && changed.length === 0 && removed.length === 0 && await this.refreshTTL(key, ttl)) {
+        this.skippedWrites++;
+        return undefined;
+      }
+
+      if (stampValue !== undefined && Object.keys(fields).length > 0) {
+        fields[TOUCH_FIELD] = stampValue;
+        changed.push(TOUCH_FIELD, await this.encodeValue(stampValue, fieldContext(key, TOUCH_FIELD)));
+      }
+
+      const updated = await this.client.invokeScript(HASH_UPDATE_SCRIPT, {
+        keys: [key],
+        args: [String(ttl), String(changed.length / 2), ...changed, ...removed]
+      });
+
+      if (updated === 1) {
+        this.remember(key, { fields });
+        return stamp;
+      }
+      // The hash is gone (expired or destroyed elsewhere) - fall through to a full write
+      delete fields[TOUCH_FIELD];
+    }
+
+    if (Object.keys(fields).length === 0) {
+      this.loaded.delete(key);
+      await this.client.del([key]);
+      return undefined;
+    }
+
+    if (stampValue !== undefined) {
+      fields[TOUCH_FIELD] = stampValue;
+    }
+
+    const encoded: Record<string, GlideString> = {};
+    for (const [name, value] of Object.entries(fields)) {
+      encoded[name] = await this.encodeValue(value, fieldContext(key, name));
+    }
+
+    // Replace the whole hash atomically so no stale fields survive
+    await this.execAtomic((batch) => {
+      batch.del([key]);
+      batch.hset(key, encoded);
+      if (ttl > 0) {
+        batch.expire(key, ttl);
+      }
+    });
+
+    this.remember(key, { fields });
+    return stamp;
+  }
+
+  /**
+   * Prepare a serialized payload for storage: compress it when it is large enough,
+   * then encrypt it when a keyring is configured. `context` identifies where the
+   * value is stored and is authenticated along with encrypted values.
+   */
+  private async encodeValue(payload: Payload, context: string): Promise<GlideString> {
+    let value: Payload = payload;
+
+    if (this.compression && Buffer.byteLength(payload) >= this.compression.threshold) {
+      value = await compress(toBuffer(payload), this.compression.algorithm, this.compression.level);
+    }
+
+    if (this.keyring) {
+      value = this.keyring.encrypt(toBuffer(value), context);
+    }
+
+    return value;
+  }
+
+  /**
+   * Turn a stored value back into a serialized payload, decrypting and decompressing it if needed.
+   * Values written without compression or encryption are returned as-is.
+   * Binary serializers receive the raw bytes, text serializers a UTF-8 string.
+   */
+  private async decodeValue(data: GlideString, context: string): Promise<Payload> {
+    let bytes = toBuffer(data);
+
+    if (isEncrypted(bytes)) {
+      if (!this.keyring) {
+        throw new SessionDecryptionError('Session value is encrypted but no encryption keys are configured');
+      }
+      bytes = this.keyring.decrypt(bytes, context);
+    } else if (this.keyring && this.requireEncryption) {
+      throw new SessionDecryptionError('Refusing to read an unencrypted session value');
+    }
+
+    if (isCompressed(bytes)) {
+      bytes = await decompress(bytes);
+    }
+
+    return this.serializer.binary ? bytes : bytes.toString('utf8');
+  }
+
+  /**
+   * Parse a decoded payload with the configured serializer
+   */
+  private parsePayload(payload: Payload): any | Promise<any> {
+    if (this.serializer.binary) {
+      return this.serializer.parse(toBuffer(payload));
+    }
+
+    return this.serializer.parse(payload.toString());
+  }
+
+  /**
+   * Serialize each top-level session property into its own hash field value
+   */
+  private toFields(session: SessionData): Record<string, Payload> {
+    const fields: Record<string, Payload> = {};
+
+    for (const [name, value] of Object.entries(session)) {
+      if (value === undefined || typeof value === 'function') {
+        continue;
+      }
+
+      const serialized = this.serializer.stringify(value);
+      if (serialized !== undefined) {
+        fields[name] = serialized;
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Remember the state of a session, evicting the oldest entry when full
+   */
+  private remember(key: string, state: LoadedSession): void {
+    this.loaded.delete(key);
+    this.loaded.set(key, state);
+
+    if (this.loaded.size > MAX_TRACKED_SESSIONS) {
+      const oldest = this.loaded.keys().next().value;
+      if (oldest !== undefined) {
+        this.loaded.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Hash a serialized session payload for change detection
+   */
+  private fingerprint(payload: Payload): string {
+    return createHash('sha1').update(payload).digest('base64');
+  }
+
+  /**
+   * Keep the serialized session a version was read or written with
+   */
+  private rememberBase(version: string, payload: Payload): void {
+    this.bases.delete(version);
+    this.bases.set(version, payload);
+
+    if (this.bases.size > MAX_TRACKED_SESSIONS) {
+      this.bases.delete(this.bases.keys().next().value!);
+    }
+  }
+
+  /**
+   * Session at a remembered version, or null if it is unknown here
+   */
+  private async baseAt(version?: string): Promise<SessionData | null> {
+    const payload = version ? this.bases.get(version) : undefined;
+    if (payload === undefined) {
+      return null;
+    }
+
+    return (await this.migrate(await this.parsePayload(payload))).session;
+  }
+
+  /**
+   * Version of a stored value; matches `redis.sha1hex` of the same bytes
+   */
+  private version(stored: GlideString): string {
+    return createHash('sha1').update(stored).digest('hex');
+  }
+
+  /**
+   * Extend the expiry of an unchanged session instead of rewriting it.
+   * Returns false when the key no longer exists and a full write is needed.
+   */
+  private async refreshTTL(key: string, ttl: number): Promise<boolean> {
+    if (ttl > 0) {
+      return this.client.expire(key, ttl);
+    }
+
+    return (await this.client.exists([key])) === 1;
+  }
+
+  /**
+   * Send a single command, through the batching pipeline when it is enabled
+   */
+  private send<T>(add: (batch: Batch | ClusterBatch) => void, direct: () => Promise<T>): Promise<T> {
+    return this.batcher ? this.batcher.enqueue<T>(add) : direct();
+  }
+
+  /**
+   * Run commands as a single MULTI/EXEC transaction on either client type
+   */
+  private async execAtomic(build: (batch: Batch | ClusterBatch) => void): Promise<void> {
+    if (this.client instanceof GlideClusterClient) {
+      const batch = new ClusterBatch(true);
+      build(batch);
+      await this.client.exec(batch, true);
+    } else {
+      const batch = new Batch(true);
+      build(batch);
+      await this.client.exec(batch, true);
+    }
+  }
+
+  /**
+   * Whether get/set/touch/destroy are currently served by the fallback store
+   */
+  get degraded(): boolean {
+    return this.isDegraded;
+  }
+
+  /**
+   * State of the circuit breaker, or 'closed' when none is configured
+   */
+  get circuitState(): CircuitState {
+    return this.breaker ? this.breaker.state : 'closed';
+  }
+
+  /**
+   * Stop accepting operations, wait up to `timeoutMs` for the ones in flight to settle,
+   * send any pipelined commands, stop background timers and emit 'close'. Resolves with
+   * the number of operations still pending when the wait gave up (0 once all settled).
+   * Calling it again returns the same shutdown.
+   */
+  async close(options: CloseOptions = {}): Promise<number> {
+    const { timeoutMs = DEFAULT_CLOSE_TIMEOUT, closeClient = false } = options;
+
+    if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+      throw new TypeError('timeoutMs must be a non-negative number of milliseconds');
+    }
+
+    this.closing ??= this.shutdown(timeoutMs, closeClient);
+    return this.closing;
+  }
+
+  /**
+   * The steps of `close`, run once
+   */
+  private async shutdown(timeoutMs: number, closeClient: boolean): Promise<number> {
+    clearInterval(this.pruneTimer);
+    this.pruneTimer = undefined;
+
+    // Give writes buffered during an outage one last chance to reach Valkey
+    if (this.probeTimer && this.pendingReplay.size > 0) {
+      this.inFlight++;
+      this.probe().finally(() => this.settle());
+    }
+
+    this.batcher?.flush();
+    await this.drain(timeoutMs);
+    this.batcher?.flush();
+
+    clearInterval(this.probeTimer);
+    this.probeTimer = undefined;
+
+    const pending = this.inFlight;
+    if (pending > 0 && this.logErrors) {
+      console.warn(`ValkeyStore: Closed with ${pending} operations still in flight`);
+    }
+
+    this.cache?.clear();
+    this.scanCursors.clear();
+    this.recentWrites.clear();
+
+    if (closeClient) {
+      this.client.close();
+      this.readClient?.close();
+    }
+
+    this.emit('close');
+    return pending;
+  }
+
+  /**
+   * Count an operation as in flight until it calls back, failing it once the store is
+   * closing unless it was started inside a running `withLock` callback
+   */
+  private tracked<F extends (cb: (...args: any[]) => void) => void>(fn: F): F {
+    return ((cb: (...args: any[]) => void) => {
+      if (this.closing && !this.lockScope.getStore()) {
+        cb(new StoreClosedError());
+        return;
+      }
+
+      this.inFlight++;
+      let settled = false;
+      const settle = () => {
+        if (!settled) {
+          settled = true;
+          this.settle();
+        }
+      };
+
+      try {
+        fn((...args: any[]) => {
+          settle();
+          cb(...args);
+        });
+      } catch (error) {
+        settle();
+        throw error;
+      }
+    }) as F;
+  }
+
+  /**
+   * Mark an operation as settled, waking `close` once none are left
+   */
+  private settle(): void {
+    if (--this.inFlight === 0) {
+      this.drainWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  /**
+   * Resolve once no operation is in flight, or after `timeoutMs`
+   */
+  private drain(timeoutMs: number): Promise<void> {
+    if (this.inFlight === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, timeoutMs);
+      this.drainWaiters.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Remove expired members from the expiry index, resolving with how many were removed.
+   * Runs every `pruneIntervalMs` in the background; they are already left out of
+   * `length` and `ids` before that.
+   */
+  async pruneExpiryIndex(): Promise<number> {
+    if (!this.expiryIndexKey) {
+      return 0;
+    }
+
+    const expiryIndexKey = this.expiryIndexKey;
+    return this.guarded(() => this.client.zremRangeByScore(expiryIndexKey, InfBoundary.NegativeInfinity, { value: Date.now() }));
+  }
+
+  /**
+   * Pub/sub subscription for the `pubsubSubscriptions` option of a dedicated subscriber
+   * client, through which this store receives cache invalidations from other instances
+   */
+  cacheSubscription(): GlideClientConfiguration.PubSubSubscriptions {
+    if (!this.cache) {
+      throw new TypeError('The local cache is not enabled');
+    }
+
+    return {
+      channelsAndPatterns: {
+        [GlideClientConfiguration.PubSubChannelModes.Exact]: new Set([this.cacheChannel])
+      },
+      callback: (msg) => this.onInvalidation(msg)
+    };
+  }
+
+  /**
+   * Run `fn` while holding a distributed lock on a session, so critical sections
+   * (e.g. checkout) are serialized across servers. The lock expires after `ttlMs`
+   * even if the holder dies; waiting longer than `waitMs` fails with SessionLockError.
+   */
+  async withLock<T>(sid: string | number, fn: () => T | Promise<T>, options: LockOptions = {}): Promise<T> {
+    const lockKey = this.lockKey(this.key(sid));
+    const ttlMs = options.ttlMs ?? DEFAULT_LOCK_TTL;
+    const waitMs = options.waitMs ?? DEFAULT_LOCK_WAIT;
+
+    if (!Number.isInteger(ttlMs) || ttlMs < 1) {
+      throw new TypeError('Lock ttlMs must be a positive integer');
+    }
+    if (!Number.isFinite(waitMs) || waitMs < 0) {
+      throw new TypeError('Lock waitMs must be a non-negative number of milliseconds');
+    }
+
+    if (this.closing && !this.lockScope.getStore()) {
+      throw new StoreClosedError();
+    }
+
+    this.inFlight++;
+    try {
+      return await this.locked(lockKey, String(sid), ttlMs, waitMs, () => this.lockScope.run(true, fn));
+    } finally {
+      this.settle();
+    }
+  }
+
+  /**
+   * Acquire the lock, run `fn` and release the lock
+   */
+  private async locked<T>(lockKey: string, sid: string, ttlMs: number, waitMs: number, fn: () => T | Promise<T>): Promise<T> {
+    const token = randomBytes(16).toString('hex');
+    const deadline = Date.now() + waitMs;
+
+    // Only acquiring goes through the breaker: fn makes its own (guarded) store calls
+    await this.guarded(async () => {
+      while (await this.client.set(lockKey, token, {
+        conditionalSet: 'onlyIfDoesNotExist',
+        expiry: { type: TimeUnit.Milliseconds, count: ttlMs }
+      }) === null) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new SessionLockError(sid, `Timed out waiting for the lock on session ${sid}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.min(remaining, LOCK_RETRY_DELAY * (0.5 + Math.random()))));
+      }
+    });
+
+    try {
+      return await fn();
+    } finally {
+      const released = await this.client.invokeScript(LOCK_RELEASE_SCRIPT, { keys: [lockKey], args: [token] });
+
+      if (released !== 1 && this.logErrors) {
+        console.warn('ValkeyStore: Lock expired before it was released for key:', lockKey);
+      }
+    }
+  }
+
+  /**
+   * Generate the lock key for a session key, hash-tagged to the session's cluster slot
+   */
+  private lockKey(key: string): string {
+    return this.companion(key, 'lock');
+  }
+
+  /**
+   * Generate the key holding a string session's last-touch stamp, in the session's slot
+   */
+  private touchKey(key: string): string {
+    return this.companion(key, 'touch');
+  }
+
+  /**
+   * Generate a companion key, rejecting session IDs whose '}' leaves no usable hash tag
+   */
+  private companion(key: string, kind: string): string {
+    const companion = companionKey(key, kind);
+    if (companion === undefined) {
+      throw new Error(`Invalid session ID format: '}' outside a hash tag in ${key}`);
+    }
+    return companion;
+  }
+
+  /**
+   * The last-touch stamp keys to delete along with the given session keys. Keys without
+   * a usable hash tag never had one.
+   */
+  private stampKeys(keys: string[]): string[] {
+    if (this.touchAfter === 0 || this.storage === 'hash') {
+      return [];
+    }
+    return keys.map(key => companionKey(key, 'touch')).filter((key): key is string => key !== undefined);
+  }
+
+  /**
+   * Get the IDs of all live sessions belonging to a user
+   */
+  async idsForUser(userId: string | number): Promise<string[]>;
+  async idsForUser(userId: string | number, callback: (err: any, ids?: string[]) => void): Promise<void>;
+  async idsForUser(userId: string | number, callback?: (err: any, ids?: string[]) => void): Promise<string[] | void> {
+    const fn = (cb: (err: any, ids?: string[]) => void) => {
+      const indexKey = this.userKey(userId);
+
+      this.guarded(() => this.userSessionIds(indexKey))
+        .then(
+          (ids) => cb(null, ids),
+          (error) => this.handleError(error as Error, cb)
+        );
+    };
+
+    return optionalCb<string[]>(this.tracked(fn), callback as any, this);
+  }
+
+  /**
+   * Get all live sessions belonging to a user, keyed by session ID
+   */
+  async allForUser(userId: string | number): Promise<{ [sid: string]: SessionData }>;
+  async allForUser(userId: string | number, callback: (err: any, obj?: { [sid: string]: SessionData }) => void): Promise<void>;
+  async allForUser(userId: string | number, callback?: (err: any, obj?: { [sid: string]: SessionData }) => void): Promise<{ [sid: string]: SessionData } | void> {
+    const fn = (cb: (err: any, obj?: { [sid: string]: SessionData }) => void) => {
+      const indexKey = this.userKey(userId);
+
+      this.guarded(() => this.userSessions(indexKey, String(userId)))
+        .then(
+          (sessions) => cb(null, sessions),
+          (error) => this.handleError(error as Error, cb)
+        );
+    };
+
+    return optionalCb<{ [sid: string]: SessionData }>(this.tracked(fn), callback as any, this);
+  }
+
+  /**
+   * Destroy every session belonging to a user ("log out everywhere").
+   * Resolves with the number of sessions destroyed.
+   */
+  async destroyAllForUser(userId: string | number): Promise<number>;
+  async destroyAllForUser(userId: string | number, callback: (err: any, count?: number) => void): Promise<void>;
+  async destroyAllForUser(userId: string | number, callback?: (err: any, count?: number) => void): Promise<number | void> {
+    const fn = (cb: (err: any, count?: number) => void) => {
+      const indexKey = this.userKey(userId);
+
+      this.guarded(async () => {
+        const sids = Object.keys(await this.userSessions(indexKey, String(userId)));
+        if (sids.length === 0) {
+          return 0;
+        }
+
+        const keys = sids.map(sid => this.key(sid));
+        keys.forEach(key => this.loaded.delete(key));
+        await this.client.del([...keys, ...this.stampKeys(keys)]);
+        await this.invalidate(keys);
+        await this.untrack(sids);
+        await this.unindex(indexKey, sids);
+        return sids.length;
+      }).then(
+        (count) => cb(null, count),
+        (error) => this.handleError(error as Error, cb)
+      );
+    };
+
+    return optionalCb<number>(this.tracked(fn), callback as any, this);
+  }
+
+  /**
+   * Delete a session and drop it from its owner's index
+   */
+  private async removeSession(sid: string, key: string): Promise<void> {
+    const owner = this.indexesUsers() ? await this.ownerOf(key) : undefined;
+
+    this.loaded.delete(key);
+    const keys = [key, ...this.stampKeys([key])];
+    await this.send(batch => batch.del(keys), () => this.client.del(keys));
+    this.markWritten(key);
+    await this.invalidate([key]);
+    await this.untrack([sid]);
+
+    if (owner) {
+      await this.unindex(this.userKey(owner), [sid]);
+    }
+  }
+
+  /**
+   * Whether sessions are indexed by user
+   */
+  private indexesUsers(): boolean {
+    return this.userIdResolver !== undefined || this.userIdField !== undefined;
+  }
+
+  /**
+   * Resolve the owning user of a session through `getUserId` or the `userIdField` path
+   */
+  private userIdOf(session: any): string | undefined {
+    let userId: unknown;
+
+    if (this.userIdResolver) {
+      userId = this.userIdResolver(session);
+    } else if (this.userIdField) {
+      userId = this.userIdField.split('.').reduce((value, part) => value == null ? undefined : value[part], session);
+    }
+
+    if ((typeof userId === 'string' && userId !== '') || typeof userId === 'number') {
+      return String(userId);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Look up the owner of a stored session, ignoring unreadable values
+   */
+  private async ownerOf(key: string): Promise<string | undefined> {
+    try {
+      const stored = await this.fetchSession(key);
+      return stored ? this.userIdOf((await this.migrate(stored.session)).session) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Generate the index key for a user's sessions. The user ID is hash-tagged so the
+   * index and its eviction order key share a cluster slot.
+   */
+  private userKey(userId: string | number): string {
+    const id = String(userId);
+
+    if (userId === undefined || userId === null || id === '') {
+      throw new TypeError('User ID must be a non-empty value');
+    }
+
+    return `${this.userIndexPrefix}{${id}}`;
+  }
+
+  /**
+   * Remove sessions from a user index and its eviction order
+   */
+  private async unindex(indexKey: string, sids: string[]): Promise<void> {
+    await this.client.zrem(indexKey, sids);
+
+    if (this.maxSessionsPerUser !== undefined) {
+      await this.client.zrem(`${indexKey}:order`, sids);
+    }
+  }
+
+  /**
+   * Add, refresh or remove a session in the expiry index and its owner's index after a write
+   */
+  private async indexSession(sid: string, session: SessionData, ttl: number): Promise<void> {
+    await this.trackExpiry(sid, ttl);
+
+    if (!this.indexesUsers()) {
+      return;
+    }
+
+    const userId = this.userIdOf(session);
+    if (!userId) {
+      return;
+    }
+
+    const indexKey = this.userKey(userId);
+
+    if (ttl <= 0 && !this.disableTTL) {
+      await this.unindex(indexKey, [sid]);
+      return;
+    }
+
+    const now = Date.now();
+    const evicted = await this.client.invokeScript(USER_INDEX_ADD_SCRIPT, {
+      keys: [indexKey, `${indexKey}:order`],
+      args: [
+        sid,
+        ttl > 0 ? String(now + ttl * 1000) : '+inf',
+        String(now),
+        String(this.maxSessionsPerUser || 0),
+        this.evictionPolicy
+      ]
+    }) as GlideString[] | null;
+
+    if (evicted && evicted.length > 0) {
+      await this.evict(userId, evicted.map(victim => victim.toString()));
+    }
+  }
+
+  /**
+   * Record a session's expiry in the expiry index, or drop it when the write deleted it
+   */
+  private async trackExpiry(sid: string, ttl: number): Promise<void> {
+    if (!this.expiryIndexKey) {
+      return;
+    }
+
+    if (ttl <= 0 && !this.disableTTL) {
+      await this.client.zrem(this.expiryIndexKey, [sid]);
+      return;
+    }
+
+    await this.client.zadd(this.expiryIndexKey, { [sid]: ttl > 0 ? Date.now() + ttl * 1000 : Infinity });
+  }
+
+  /**
+   * Remove sessions from the expiry index
+   */
+  private async untrack(sids: string[]): Promise<void> {
+    if (this.expiryIndexKey) {
+      await this.client.zrem(this.expiryIndexKey, sids);
+    }
+  }
+
+  /**
+   * Delete sessions evicted from a user's index by the session cap. An index can hold
+   * sessions that have since changed owner, been logged out or expired; those are only
+   * dropped from the index (which the script already did), never deleted.
+   */
+  private async evict(userId: string, victims: string[]): Promise<void> {
+    const owners = await Promise.all(victims.map(victim => this.ownerOf(this.key(victim))));
+    const sids = victims.filter((_victim, i) => owners[i] === userId);
+    if (sids.length === 0) {
+      return;
+    }
+
+    const keys = sids.map(victim => this.key(victim));
+    keys.forEach(key => this.loaded.delete(key));
+
+    await this.client.del([...keys, ...this.stampKeys(keys)]);
+    await this.invalidate(keys);
+    await this.untrack(sids);
+
+    for (const sid of sids) {
+      this.emit('evicted', sid, userId);
+    }
+  }
+
+  /**
+   * Read the non-expired session IDs from a user index. Expired members are
+   * pruned by the next indexed write.
+   */
+  private async userSessionIds(indexKey: string): Promise<string[]> {
+    return this.indexedIds(indexKey);
+  }
+
+  /**
+   * Members of an index scored by expiry that have not expired yet
+   */
+  private async indexedIds(indexKey: string, client: ValkeyClient = this.client): Promise<string[]> {
+    const ids = await client.zrange(indexKey, {
+      type: 'byScore',
+      start: { value: Date.now() },
+      end: InfBoundary.PositiveInfinity
+    });
+    return ids.map(id => id.toString());
+  }
+
+  /**
+   * Load the sessions listed in a user index, dropping members that are gone
+   * or that now belong to someone else
+   */
+  private async userSessions(indexKey: string, userId: string): Promise<{ [sid: string]: SessionData }> {
+    const sids = await this.userSessionIds(indexKey);
+    const sessions: { [sid: string]: SessionData } = {};
+    const stale: string[] = [];
+
+    await Promise.all(sids.map(async (sid) => {
+      const stored = await this.fetchSession(this.key(sid));
+      const session = stored && (await this.migrate(stored.session)).session;
+
+      if (session && this.userIdOf(session) === userId) {
+        sessions[sid] = session;
+      } else {
+        stale.push(sid);
+      }
+    }));
+
+    if (stale.length > 0) {
+      await this.unindex(indexKey, stale);
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Get TTL for session
+   */
+  private getTTL(session: SessionData): number {
+    if (this.disableTTL) {
+      return -1; // Never expire
+    }
+
+    // Capture timestamp once to avoid race conditions
+    const now = Date.now();
+
+    // Check if cookie has expires field (Date or string)
+    if (session.cookie && session.cookie.expires) {
+      const expires = session.cookie.expires instanceof Date
+        ? session.cookie.expires.getTime()
+        : new Date(session.cookie.expires).getTime();
+
+      const ttl = Math.floor((expires - now) / 1000);
+      return Math.max(0, ttl); // Ensure non-negative TTL
+    }
+
+    // Fallback to maxAge
+    if (session.cookie && session.cookie.maxAge) {
+      return Math.floor(session.cookie.maxAge / 1000);
+    }
+
+    // Fallback to configured TTL
+    return typeof this.ttl === 'function' ? this.ttl(session) : this.ttl;
+  }
+
+  /**
+   * Read a batch of session keys, skipping missing and unreadable values
+   */
+  private async loadSessions(keys: string[], client: ValkeyClient = this.client): Promise<{ [sid: string]: SessionData }> {
+    const sessions: { [sid: string]: SessionData } = {};
+    if (keys.length === 0) return sessions;
+
+    if (this.storage === 'hash') {
+      // Hashes cannot be fetched with MGET, so read each session in the batch concurrently
+      await Promise.all(keys.map(async (key) => {
+        try {
+          const stored = await this.fetchHash(key, client);
+          if (stored) {
+            sessions[key.replace(this.prefix, '')] = await this.upgrade(key, stored.session);
+          }
+        } catch (error) {
+          this.skipInvalid(key, error);
+        }
+      }));
+      return sessions;
+    }
+
+    const values = await this.fetchValues(keys, client);
+
+    // Process the values
+    const parsePromises: Promise<void>[] = [];
+
+    values.forEach((data, index) => {
+      if (data) {
+        const sid = keys[index].replace(this.prefix, '');
+
+        parsePromises.push(
+          this.decodeValue(data, keys[index])
+            .then(payload => this.parsePayload(payload))
+            .then(parsed => this.upgrade(keys[index], parsed))
+            .then(session => { sessions[sid] = session; })
+            .catch(error => {
+              // Skip invalid sessions
+              this.skipInvalid(keys[index], error);
+            })
+        );
+      }
+    });
+
+    // Wait for all async parsing to complete for this batch
+    await Promise.all(parsePromises);
+    return sessions;
+  }
+
+  /**
+   * Report a value skipped by a bulk read. Decryption failures are reported like other
+   * errors, through the log and the 'error' event; other unreadable values are only logged.
+   */
+  private skipInvalid(key: string, error: unknown): void {
+    if (!(error instanceof SessionDecryptionError)) {
+      if (this.logErrors) {
+        console.warn('ValkeyStore: Invalid session data for key:', key);
+      }
+      return;
+    }
+
+    if (this.logErrors) {
+      console.error('ValkeyStore error:', error);
+    }
+    // Without a listener, emitting would abort the whole read over one session
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Read raw values with MGET, in input order. In cluster mode the keys are split into
+   * one MGET per primary, which glide splits by slot and pipelines to that node.
+   */
+  private async fetchValues(keys: string[], client: ValkeyClient = this.client): Promise<(GlideString | null)[]> {
+    if (!(client instanceof GlideClusterClient)) {
+      return client.mget(keys, { decoder: Decoder.Bytes });
+    }
+
+    const values = new Array<GlideString | null>(keys.length).fill(null);
+
+    await this.perNode(client, keys, async (indexes) => {
+      const nodeValues = await client.mget(indexes.map(i => keys[i]), { decoder: Decoder.Bytes });
+      indexes.forEach((keyIndex, i) => { values[keyIndex] = nodeValues[i]; });
+    });
+
+    return values;
+  }
+
+  /**
+   * UNLINK keys, one command per primary in cluster mode, resolving with the number removed
+   */
+  private async unlinkKeys(keys: string[]): Promise<number> {
+    if (!(this.client instanceof GlideClusterClient)) {
+      return this.client.unlink(keys);
+    }
+
+    const client = this.client;
+    const counts = await this.perNode(client, keys, indexes => client.unlink(indexes.map(i => keys[i])));
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Run `fn` once per primary with the positions of the keys it owns,
+   * `mgetConcurrency` primaries at a time
+   */
+  private async perNode<R>(client: GlideClusterClient, keys: string[], fn: (indexes: number[]) => Promise<R>): Promise<R[]> {
+    const owners = await this.slotOwners(client);
+    return mapWithConcurrency(Array.from(groupByOwner(keys, owners).values()), this.mgetConcurrency, fn);
+  }
+
+  /**
+   * Owning primary of every slot, reused for SLOT_OWNERS_TTL. An outdated map only
+   * changes how keys are grouped: glide still routes every slot to its current owner.
+   */
+  private slotOwners(client: GlideClusterClient): Promise<(string | undefined)[]> {
+    const cached = this.slotOwnerCache.get(client);
+    if (cached && Date.now() - cached.at < SLOT_OWNERS_TTL) {
+      return cached.owners;
+    }
+
+    const owners = client.customCommand(['CLUSTER', 'NODES'], { route: 'randomNode', decoder: Decoder.String })
+      .then(nodes => parseSlotOwners(String(nodes)));
+    const entry = { at: Date.now(), owners };
+    this.slotOwnerCache.set(client, entry);
+
+    owners.catch(() => {
+      if (this.slotOwnerCache.get(client) === entry) {
+        this.slotOwnerCache.delete(client);
+      }
+    });
+    return owners;
+  }
+
+  /**
+   * Scan from a cursor position until `limit` sessions are collected or the scan ends.
+   * Keys scanned beyond the limit are carried over in the next cursor.
+   */
+  private async scanPage(position: CursorPosition, limit: number): Promise<SessionPage> {
+    const pattern = `${this.prefix}*`;
+    const sids = [...position.pending];
+    let cursor = position.cursor;
+    let started = position.started;
+
+    while (sids.length < limit && !(started && this.isCursorFinished(cursor))) {
+      const [nextCursor, scanKeys] = await this.client.scan(cursor as any, {
+        match: pattern,
+        count: this.scanCount
+      });
+
+      sids.push(...scanKeys.map(k => k.toString().replace(this.prefix, '')));
+      cursor = nextCursor as string | ClusterScanCursor;
+      started = true;
+    }
+
+    const sessions = await this.loadSessions(sids.slice(0, limit).map(sid => this.key(sid)));
+    const pending = sids.slice(limit);
+    const done = started && this.isCursorFinished(cursor) && pending.length === 0;
+
+    return { sessions, nextCursor: done ? null : this.encodeCursor(cursor, pending) };
+  }
+
+  /**
+   * Serialize a scan position into an opaque, URL-safe cursor. Cluster scan state lives
+   * in the client, so cluster cursors are kept here and referenced by id.
+   */
+  private encodeCursor(cursor: string | ClusterScanCursor, pending: string[]): string {
+    let id: string;
+
+    if (cursor instanceof ClusterScanCursor) {
+      id = cursor.getCursor();
+      this.scanCursors.set(id, cursor);
+      if (this.scanCursors.size > MAX_TRACKED_CURSORS) {
+        this.scanCursors.delete(this.scanCursors.keys().next().value!);
+      }
+    } else {
+      id = cursor.toString();
+    }
+
+    return Buffer.from(JSON.stringify({ c: id, p: pending })).toString('base64url');
+  }
+
+  /**
+   * Parse a cursor produced by `encodeCursor`, or start a new scan
+   */
+  private decodeCursor(token?: string | null): CursorPosition {
+    const isCluster = this.client instanceof GlideClusterClient;
+
+    if (!token) {
+      return { cursor: isCluster ? new ClusterScanCursor() : '0', pending: [], started: false };
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch (error) {
+      parsed = undefined;
+    }
+
+    if (!parsed || typeof parsed.c !== 'string' || !Array.isArray(parsed.p) || parsed.p.some((sid: unknown) => typeof sid !== 'string')) {
+      throw new TypeError('Invalid session cursor');
+    }
+
+    if (!isCluster) {
+      if (!/^\d+$/.test(parsed.c)) {
+        throw new TypeError('Invalid session cursor');
+      }
+      return { cursor: parsed.c, pending: parsed.p, started: true };
+    }
+
+    const cursor = this.scanCursors.get(parsed.c);
+    if (!cursor) {
+      throw new TypeError('Unknown or expired session cursor');
+    }
+
+    this.scanCursors.delete(parsed.c);
+    return { cursor, pending: parsed.p, started: true };
+  }
+
+  /**
+   * Scan for keys matching pattern (collects all keys)
+   */
+  private async scanKeys(pattern: string, onComplete: (keys: string[]) => void, client: ValkeyClient = this.client): Promise<void> {
+    // Check if we're dealing with a cluster client
+    const isCluster = client instanceof GlideClusterClient;
+
+    const keys: string[] = [];
+
+    if (isCluster && this.scanParallelism) {
+      await this.scanPrimaries(pattern, async (batch) => { keys.push(...batch); }, client);
+      onComplete(keys);
+      return;
+    }
+    let cursor: any = isCluster ? new ClusterScanCursor() : '0';
+
+    do {
+      const [nextCursor, scanKeys] = await client.scan(cursor, {
+        match: pattern,
+        count: this.scanCount
+      });
+
+      keys.push(...scanKeys.map(k => typeof k === 'string' ? k : k.toString()));
+      cursor = nextCursor;
+
+      // Handle both string (standalone) and ClusterScanCursor (cluster) types
+    } while (!this.isCursorFinished(cursor));
+
+    onComplete(keys);
+  }
+
+  /**
+   * Scan every primary with its own SCAN cursor, `scanParallelism` nodes at a time,
+   * emitting 'scanProgress' after each SCAN call
+   */
+  private async scanPrimaries(pattern: string, onBatch: (keys: string[]) => Promise<void>, client: ValkeyClient = this.client): Promise<void> {
+    const cluster = client as GlideClusterClient;
+    const nodes = await cluster.customCommand(['CLUSTER', 'NODES'], { route: 'randomNode', decoder: Decoder.String });
+    const primaries = parsePrimaries(String(nodes));
+
+    await mapWithConcurrency(primaries, this.scanParallelism!, node => this.scanNode(cluster, node, pattern, onBatch));
+  }
+
+  /**
+   * Scan the keys matching pattern on one node, handing over each non-empty batch
+   */
+  private async scanNode(client: GlideClusterClient, node: ClusterNodeAddress, pattern: string, onBatch: (keys: string[]) => Promise<void>): Promise<void> {
+    const name = `${node.host}:${node.port}`;
+    const route = { type: 'routeByAddress' as const, host: node.host, port: node.port };
+    let found = 0;
+    let cursor = '0';
+
+    do {
+      const reply = await client.customCommand(['SCAN', cursor, 'MATCH', pattern, 'COUNT', String(this.scanCount)], { route, decoder: Decoder.String });
+      const [nextCursor, scanKeys] = reply as [string, string[]];
+
+      found += scanKeys.length;
+      cursor = String(nextCursor);
+
+      const progress: ScanProgress = { node: name, found, done: cursor === '0' };
+      this.emit('scanProgress', progress);
+
+      if (scanKeys.length > 0) {
+        await onBatch(scanKeys);
+      }
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Scan and process keys in batches, one primary per cursor when `scanParallelism` is set
+   */
+  private async scanAndProcessKeys(pattern: string, onBatch: (keys: string[]) => Promise<void>, parallel = false, client: ValkeyClient = this.client): Promise<void> {
+    if (parallel && client instanceof GlideClusterClient && this.scanParallelism) {
+      await this.scanPrimaries(pattern, onBatch, client);
+      return;
+    }
+
+    for await (const keys of this.scanBatches(pattern, client)) {
+      await onBatch(keys);
+    }
+  }
+
+  /**
+   * Yield non-empty batches of keys matching pattern; the next SCAN is only issued
+   * once the consumer asks for more
+   */
+  private async *scanBatches(pattern: string, client: ValkeyClient = this.client): AsyncGenerator<string[]> {
+    // Check if we're dealing with a cluster client
+    const isCluster = client instanceof GlideClusterClient;
+    let cursor: any = isCluster ? new ClusterScanCursor() : '0';
+
+    do {
+      const [nextCursor, scanKeys] = await client.scan(cursor, {
+        match: pattern,
+        count: this.scanCount
+      });
+
+      cursor = nextCursor;
+
+      if (scanKeys.length > 0) {
+        yield scanKeys.map(k => typeof k === 'string' ? k : k.toString());
+      }
 
       // Handle both string (standalone) and ClusterScanCursor (cluster) types
     } while (!this.isCursorFinished(cursor));
@@ -477,4 +2783,7 @@ export default function createValkeyStore(session: any): typeof ValkeyStore {
 }
 
 // Export types and aliases
-export { ValkeyStore as Store };
\ No newline at end of file
+export { ValkeyStore as Store };
+export { SessionDecryptionError, SessionConflictError, SessionLockError, StoreUnavailableError, StoreClosedError } from './errors';
+export { MessagePackSerializer } from './msgpack';
+export { isTransientError } from './retry';
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { MergeFunction, MergeStrategy } from './types';
+
+/**
+ * Three-way merges of conflicting session writes. `base` is the session as both writers
+ * read it (null when it is no longer known), `mine` is the session being saved and
+ * `theirs` is what is stored now. Changes made in `mine` relative to `base` are applied
+ * on top of `theirs`; without a base every property of `mine` counts as changed.
+ */
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Identity of an array item for union merges: the `id` of objects that have one,
+ * otherwise the item's JSON representation
+ */
+function identity(item: unknown): string {
+  if (isPlainObject(item) && item.id !== undefined) {
+    return `id:${JSON.stringify(item.id)}`;
+  }
+  return `value:${JSON.stringify(item)}`;
+}
+
+function mergeArrays(base: any[], mine: any[], theirs: any[]): any[] {
+  const baseItems = new Map(base.map(item => [identity(item), item]));
+  const mineItems = new Map(mine.map(item => [identity(item), item]));
+  const result: any[] = [];
+  const seen = new Set<string>();
+
+  for (const item of theirs) {
+    const id = identity(item);
+    seen.add(id);
+
+    if (baseItems.has(id) && !mineItems.has(id)) {
+      // Removed in mine
+      continue;
+    }
+
+    const own = mineItems.get(id);
+    result.push(own !== undefined && !isEqual(own, baseItems.get(id)) ? own : item);
+  }
+
+  for (const item of mine) {
+    const id = identity(item);
+    if (!seen.has(id) && !baseItems.has(id)) {
+      // Added in mine
+      result.push(item);
+      seen.add(id);
+    }
+  }
+
+  return result;
+}
+
+function mergeObjects(base: Record<string, any> | undefined, mine: Record<string, any>, theirs: Record<string, any>, deep: boolean, unionArrays: boolean): Record<string, any> {
+  const result: Record<string, any> = { ...theirs };
+  const keys = new Set([...Object.keys(mine), ...Object.keys(base || {})]);
+
+  for (const key of keys) {
+    const inBase = base !== undefined && key in base;
+
+    if (!(key in mine)) {
+      // Deleted in mine, unless theirs changed it since
+      if (inBase && isEqual(base![key], theirs[key])) {
+        delete result[key];
+      }
+      continue;
+    }
+
+    if (inBase && isEqual(mine[key], base![key])) {
+      continue;
+    }
+
+    const value = mine[key];
+    const baseValue = inBase ? base![key] : undefined;
+
+    if (deep && isPlainObject(value) && isPlainObject(theirs[key])) {
+      result[key] = mergeObjects(isPlainObject(baseValue) ? baseValue : undefined, value, theirs[key], deep, unionArrays);
+    } else if (unionArrays && Array.isArray(value) && Array.isArray(theirs[key])) {
+      result[key] = mergeArrays(Array.isArray(baseValue) ? baseValue : [], value, theirs[key]);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+const BUILT_IN_STRATEGIES: Record<string, MergeFunction> = {
+  // Top-level properties changed in mine replace theirs
+  shallow: (base, mine, theirs) => mergeObjects(base || undefined, mine, theirs, false, false) as any,
+  // Nested objects are merged property by property; other values changed in mine win
+  deep: (base, mine, theirs) => mergeObjects(base || undefined, mine, theirs, true, false) as any,
+  // Like deep, and arrays keep items added on either side (matched by `id`, or by value)
+  'union-by-id': (base, mine, theirs) => mergeObjects(base || undefined, mine, theirs, true, true) as any,
+};
+
+/**
+ * Resolve a `mergeStrategy` option to a merge function
+ */
+export function resolveMergeStrategy(strategy: MergeStrategy): MergeFunction {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+
+  const merge = Object.prototype.hasOwnProperty.call(BUILT_IN_STRATEGIES, strategy) ? BUILT_IN_STRATEGIES[strategy] : undefined;
+  if (!merge) {
+    throw new TypeError(`Invalid merge strategy: ${strategy}`);
+  }
+
+  return merge;
+}
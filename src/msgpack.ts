@@ -0,0 +1,391 @@
+/**
+ * Minimal MessagePack codec covering the types that appear in session data:
+ * nil, booleans, integers, floats, strings, binary, arrays, maps and dates
+ * (timestamp extension type -1). Objects with a `toJSON` method (e.g. express-session's
+ * Cookie) are encoded from its result, and `undefined`/function properties are skipped,
+ * mirroring JSON.stringify.
+ */
+
+import { BinarySerializer } from './types';
+
+const TIMESTAMP_EXT_TYPE = -1;
+
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private offset = 0;
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) {
+      return;
+    }
+
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) {
+      length *= 2;
+    }
+
+    const next = Buffer.allocUnsafe(length);
+    this.buffer.copy(next, 0, 0, this.offset);
+    this.buffer = next;
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.buffer.writeUInt8(value, this.offset);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.buffer.writeUInt16BE(value, this.offset);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.buffer.writeUInt32BE(value, this.offset);
+    this.offset += 4;
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.buffer.writeInt8(value, this.offset);
+    this.offset += 1;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.buffer.writeInt16BE(value, this.offset);
+    this.offset += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.buffer.writeInt32BE(value, this.offset);
+    this.offset += 4;
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.buffer.writeBigUInt64BE(value, this.offset);
+    this.offset += 8;
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.buffer.writeBigInt64BE(value, this.offset);
+    this.offset += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.buffer.writeDoubleBE(value, this.offset);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  result(): Buffer {
+    return this.buffer.subarray(0, this.offset);
+  }
+}
+
+function encodeInteger(writer: Writer, value: number | bigint): void {
+  if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(Number(value));
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(Number(value));
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(Number(value));
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(Number(value));
+    } else {
+      writer.u8(0xcf);
+      writer.u64(BigInt(value));
+    }
+  } else if (value >= -0x20) {
+    writer.i8(Number(value));
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(Number(value));
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(Number(value));
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(Number(value));
+  } else {
+    writer.u8(0xd3);
+    writer.i64(BigInt(value));
+  }
+}
+
+function encodeHeader(writer: Writer, length: number, fix: number, fixMax: number, codes: [number | null, number, number]): void {
+  if (length <= fixMax) {
+    writer.u8(fix | length);
+  } else if (codes[0] !== null && length <= 0xff) {
+    writer.u8(codes[0]);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(codes[1]);
+    writer.u16(length);
+  } else {
+    writer.u8(codes[2]);
+    writer.u32(length);
+  }
+}
+
+function encodeValue(writer: Writer, value: any): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+    return;
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      writer.u8(value ? 0xc3 : 0xc2);
+      return;
+    case 'number':
+      if (Number.isSafeInteger(value)) {
+        encodeInteger(writer, value);
+      } else {
+        writer.u8(0xcb);
+        writer.f64(value);
+      }
+      return;
+    case 'bigint':
+      if (value > BigInt('0xffffffffffffffff') || value < -BigInt('0x8000000000000000')) {
+        throw new RangeError('BigInt value out of MessagePack 64-bit range');
+      }
+      encodeInteger(writer, value);
+      return;
+    case 'string': {
+      const bytes = Buffer.from(value, 'utf8');
+      encodeHeader(writer, bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+      writer.bytes(bytes);
+      return;
+    }
+    case 'object':
+      break;
+    default:
+      // Functions and symbols have no representation, like in JSON
+      writer.u8(0xc0);
+      return;
+  }
+
+  if (value instanceof Date) {
+    const millis = value.getTime();
+    const seconds = Math.floor(millis / 1000);
+    writer.u8(0xc7);
+    writer.u8(12);
+    writer.i8(TIMESTAMP_EXT_TYPE);
+    writer.u32((millis - seconds * 1000) * 1e6);
+    writer.i64(BigInt(seconds));
+    return;
+  }
+
+  if (value instanceof Uint8Array) {
+    encodeHeader(writer, value.length, 0, -1, [0xc4, 0xc5, 0xc6]);
+    writer.bytes(value);
+    return;
+  }
+
+  if (typeof value.toJSON === 'function') {
+    encodeValue(writer, value.toJSON());
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    encodeHeader(writer, value.length, 0x90, 15, [null, 0xdc, 0xdd]);
+    for (const item of value) {
+      encodeValue(writer, item);
+    }
+    return;
+  }
+
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined && typeof item !== 'function');
+  encodeHeader(writer, entries.length, 0x80, 15, [null, 0xde, 0xdf]);
+  for (const [key, item] of entries) {
+    encodeValue(writer, key);
+    encodeValue(writer, item);
+  }
+}
+
+/**
+ * Encode a value as MessagePack
+ */
+export function encode(value: any): Buffer {
+  const writer = new Writer();
+  encodeValue(writer, value);
+  return writer.result();
+}
+
+class Reader {
+  public offset = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  private take(size: number): number {
+    const start = this.offset;
+    if (start + size > this.buffer.length) {
+      throw new RangeError('Unexpected end of MessagePack data');
+    }
+    this.offset += size;
+    return start;
+  }
+
+  u8(): number { return this.buffer.readUInt8(this.take(1)); }
+  u16(): number { return this.buffer.readUInt16BE(this.take(2)); }
+  u32(): number { return this.buffer.readUInt32BE(this.take(4)); }
+  i8(): number { return this.buffer.readInt8(this.take(1)); }
+  i16(): number { return this.buffer.readInt16BE(this.take(2)); }
+  i32(): number { return this.buffer.readInt32BE(this.take(4)); }
+  f32(): number { return this.buffer.readFloatBE(this.take(4)); }
+  f64(): number { return this.buffer.readDoubleBE(this.take(8)); }
+
+  u64(): number | bigint {
+    return toSafeNumber(this.buffer.readBigUInt64BE(this.take(8)));
+  }
+
+  i64(): number | bigint {
+    return toSafeNumber(this.buffer.readBigInt64BE(this.take(8)));
+  }
+
+  bytes(length: number): Buffer {
+    const start = this.take(length);
+    return this.buffer.subarray(start, start + length);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function decodeArray(reader: Reader, length: number): any[] {
+  const result = new Array(length);
+  for (let i = 0; i < length; i++) {
+    result[i] = decodeValue(reader);
+  }
+  return result;
+}
+
+function decodeMap(reader: Reader, length: number): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = String(decodeValue(reader));
+    const value = decodeValue(reader);
+    if (key === '__proto__') {
+      Object.defineProperty(result, key, { value, enumerable: true, configurable: true, writable: true });
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function decodeExt(reader: Reader, length: number): Date {
+  const type = reader.i8();
+  if (type !== TIMESTAMP_EXT_TYPE) {
+    throw new TypeError(`Unsupported MessagePack extension type: ${type}`);
+  }
+
+  switch (length) {
+    case 4:
+      return new Date(reader.u32() * 1000);
+    case 8: {
+      const high = reader.u32();
+      const low = reader.u32();
+      const nanoseconds = Math.floor(high / 4);
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    case 12: {
+      const nanoseconds = reader.u32();
+      const seconds = Number(reader.i64());
+      return new Date(seconds * 1000 + nanoseconds / 1e6);
+    }
+    default:
+      throw new TypeError(`Invalid MessagePack timestamp length: ${length}`);
+  }
+}
+
+function decodeValue(reader: Reader): any {
+  const code = reader.u8();
+
+  if (code <= 0x7f) return code;
+  if (code <= 0x8f) return decodeMap(reader, code & 0x0f);
+  if (code <= 0x9f) return decodeArray(reader, code & 0x0f);
+  if (code <= 0xbf) return reader.bytes(code & 0x1f).toString('utf8');
+  if (code >= 0xe0) return code - 0x100;
+
+  switch (code) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return Buffer.from(reader.bytes(reader.u8()));
+    case 0xc5: return Buffer.from(reader.bytes(reader.u16()));
+    case 0xc6: return Buffer.from(reader.bytes(reader.u32()));
+    case 0xc7: return decodeExt(reader, reader.u8());
+    case 0xc8: return decodeExt(reader, reader.u16());
+    case 0xc9: return decodeExt(reader, reader.u32());
+    case 0xca: return reader.f32();
+    case 0xcb: return reader.f64();
+    case 0xcc: return reader.u8();
+    case 0xcd: return reader.u16();
+    case 0xce: return reader.u32();
+    case 0xcf: return reader.u64();
+    case 0xd0: return reader.i8();
+    case 0xd1: return reader.i16();
+    case 0xd2: return reader.i32();
+    case 0xd3: return reader.i64();
+    case 0xd4: return decodeExt(reader, 1);
+    case 0xd5: return decodeExt(reader, 2);
+    case 0xd6: return decodeExt(reader, 4);
+    case 0xd7: return decodeExt(reader, 8);
+    case 0xd8: return decodeExt(reader, 16);
+    case 0xd9: return reader.bytes(reader.u8()).toString('utf8');
+    case 0xda: return reader.bytes(reader.u16()).toString('utf8');
+    case 0xdb: return reader.bytes(reader.u32()).toString('utf8');
+    case 0xdc: return decodeArray(reader, reader.u16());
+    case 0xdd: return decodeArray(reader, reader.u32());
+    case 0xde: return decodeMap(reader, reader.u16());
+    case 0xdf: return decodeMap(reader, reader.u32());
+    default:
+      throw new TypeError(`Invalid MessagePack type code: 0x${code.toString(16)}`);
+  }
+}
+
+/**
+ * Decode a single MessagePack value
+ */
+export function decode(data: Uint8Array): any {
+  const reader = new Reader(Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  const value = decodeValue(reader);
+
+  if (!reader.done) {
+    throw new RangeError('Unexpected trailing bytes after MessagePack value');
+  }
+
+  return value;
+}
+
+/**
+ * Binary session serializer using MessagePack
+ */
+export const MessagePackSerializer: BinarySerializer = {
+  binary: true,
+  stringify: encode,
+  parse: decode,
+};
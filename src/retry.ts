@@ -0,0 +1,58 @@
+import { ConnectionError, TimeoutError } from '@valkey/valkey-glide';
+import { RetryOptions } from './types';
+
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_DELAY = 50;
+export const DEFAULT_RETRY_MAX_DELAY = 1000;
+export const DEFAULT_RETRY_JITTER = 0.5;
+
+export interface ResolvedRetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number;
+  isRetryable: (error: unknown) => boolean;
+}
+
+/**
+ * Errors that are likely to go away on their own: timeouts and lost connections
+ * (e.g. during a failover)
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof TimeoutError || error instanceof ConnectionError;
+}
+
+/**
+ * Validate retry options and fill in defaults
+ */
+export function resolveRetryOptions(options: RetryOptions): ResolvedRetryOptions {
+  const {
+    maxAttempts = DEFAULT_RETRY_ATTEMPTS,
+    baseDelayMs = DEFAULT_RETRY_DELAY,
+    maxDelayMs = DEFAULT_RETRY_MAX_DELAY,
+    jitter = DEFAULT_RETRY_JITTER,
+    isRetryable = isTransientError,
+  } = options;
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new TypeError('retry.maxAttempts must be a positive integer');
+  }
+  if (!Number.isFinite(baseDelayMs) || baseDelayMs < 0 || !Number.isFinite(maxDelayMs) || maxDelayMs < baseDelayMs) {
+    throw new TypeError('retry delays must be non-negative, with maxDelayMs at least baseDelayMs');
+  }
+  if (!(jitter >= 0 && jitter <= 1)) {
+    throw new TypeError('retry.jitter must be between 0 and 1');
+  }
+
+  return { maxAttempts, baseDelayMs, maxDelayMs, jitter, isRetryable };
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff capped at
+ * `maxDelayMs`, with up to `jitter` of it taken off at random so clients that failed
+ * together do not retry together
+ */
+export function retryDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return Math.round(delay * (1 - options.jitter * Math.random()));
+}
@@ -1,7 +1,7 @@
 // Type declarations for express-session compatibility
 import { SessionData, Store, Cookie, Session } from 'express-session';
 import { Request } from 'express';
-import { GlideClient, GlideClusterClient } from '@valkey/valkey-glide';
+import { GlideClient, GlideClusterClient, ReadFrom } from '@valkey/valkey-glide';
 
 // Re-export SessionData from express-session for proper compatibility
 export { SessionData, Cookie, Session, Store };
@@ -9,6 +9,156 @@ export { SessionData, Cookie, Session, Store };
 // Valkey client types
 export type ValkeyClient = GlideClient | GlideClusterClient;
 
+// Session storage layout: one serialized string per session, or one hash field per top-level property
+export type StorageMode = 'string' | 'hash';
+
+// Which of a user's other sessions is evicted when `maxSessionsPerUser` is exceeded:
+// the earliest created, or the least recently written/touched
+export type EvictionPolicy = 'oldest' | 'lru';
+
+// Options for `store.page()`; `cursor` is the `nextCursor` of the previous page
+export interface PageOptions {
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface SessionPage {
+  sessions: { [sid: string]: SessionData };
+  nextCursor: string | null;
+}
+
+// 'optimistic': `set` only commits if the session is unchanged since `get` (string storage only)
+export type ConcurrencyMode = 'none' | 'optimistic';
+
+// Resolves a write conflict: receives the session being saved and the currently stored
+// one (null if it was deleted), returns the session to save instead
+export type ConflictHandler = (mine: SessionData, theirs: SessionData | null, sid: string) => SessionData | Promise<SessionData>;
+
+// Three-way merge of a conflicting save: `base` is the session both writers started from
+// (null if unknown), `mine` the session being saved, `theirs` the one stored now
+export type MergeFunction = (base: SessionData | null, mine: SessionData, theirs: SessionData) => SessionData | Promise<SessionData>;
+
+export type MergeStrategy = 'shallow' | 'deep' | 'union-by-id' | MergeFunction;
+
+// Options for `store.withLock()`: lock expiry and how long to wait for it, in ms
+export interface LockOptions {
+  ttlMs?: number;
+  waitMs?: number;
+}
+
+// Payload of 'scanProgress' events emitted while scanning primaries in parallel
+export interface ScanProgress {
+  node: string;
+  found: number;
+  done: boolean;
+}
+
+// Sorted set of session IDs scored by expiry, used by length/ids instead of SCAN
+export interface ExpiryIndexOptions {
+  key?: string;
+  pruneIntervalMs?: number;
+}
+
+// Options for `clear`: count without deleting, report each batch, or cancel midway
+export interface ClearOptions {
+  dryRun?: boolean;
+  onProgress?: (progress: ClearProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Keys matched so far, and how many of them were deleted
+export interface ClearProgress {
+  scanned: number;
+  deleted: number;
+}
+
+// Options for `close`: how long to wait for in-flight operations, and whether to
+// close the valkey-glide clients afterwards
+export interface CloseOptions {
+  timeoutMs?: number;
+  closeClient?: boolean;
+}
+
+// Retries of get/set/touch/destroy after transient errors, with exponential backoff
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+// Payload of 'retry' events
+export interface RetryEvent {
+  operation: string;
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+// Circuit breaker around every store operation (bulk and per-user reads count once per
+// call, `withLock` only while acquiring): opens when at least `failureThreshold` of the
+// last `windowMs` of requests failed (once `minimumRequests` were seen)
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  minimumRequests?: number;
+  windowMs?: number;
+  cooldownMs?: number;
+  halfOpenRequests?: number;
+  isFailure?: (error: unknown) => boolean;
+}
+
+// Pipelining of set/touch/destroy commands issued close together
+export interface BatchingOptions {
+  windowMs?: number;
+  maxBatchSize?: number;
+}
+
+// Local read cache in front of `get`; `channel` carries invalidations between instances
+export interface LocalCacheOptions {
+  maxEntries?: number;
+  ttlMs?: number;
+  channel?: string;
+}
+
+// Compression applied to serialized payloads at or above `threshold` bytes (default 1024)
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export interface CompressionOptions {
+  algorithm?: CompressionAlgorithm;
+  threshold?: number;
+  // zlib level (gzip/deflate) or quality (brotli)
+  level?: number;
+}
+
+// AES-256-GCM encryption at rest; keys are 32-byte Buffers or base64 strings, indexed by key id
+export interface EncryptionOptions {
+  keys: Record<string, string | Buffer>;
+  currentKeyId: string;
+  // Fail reads of values written before encryption was enabled
+  requireEncryption?: boolean;
+}
+
+// Text serializers exchange strings (JSON is the default)
+export interface Serializer {
+  binary?: false;
+  stringify: (obj: any) => string;
+  parse: (str: string) => any | Promise<any>;
+}
+
+// Binary serializers exchange Buffers; stored values are read back as raw bytes
+export interface BinarySerializer {
+  binary: true;
+  stringify: (obj: any) => Buffer;
+  parse: (data: Buffer) => any | Promise<any>;
+}
+
+// Upgrade functions keyed by the schema version they produce (2 upgrades a version-1 session to version 2).
+// Sessions written before versioning was enabled are treated as version 0.
+export type SessionMigrations = Record<number, (session: any) => any | Promise<any>>;
+
 // Store configuration interface
 export interface ValkeyStoreOptions {
   client: ValkeyClient;
@@ -16,10 +166,46 @@ export interface ValkeyStoreOptions {
   ttl?: number | ((sess: SessionData) => number);
   disableTTL?: boolean;
   disableTouch?: boolean;
+  // Skip touches within this many seconds of the last TTL refresh
+  touchAfter?: number;
+  cache?: LocalCacheOptions;
+  batching?: boolean | BatchingOptions;
   scanCount?: number;
+  // Cluster mode: primaries read from at once (one MGET each) when loading a scan batch
+  mgetConcurrency?: number;
+  // Cluster mode: scan this many primaries at once in length/ids/clear instead of one cluster-wide cursor
+  scanParallelism?: number;
+  expiryIndex?: boolean | ExpiryIndexOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreakerOptions;
+  // Store used for get/set/touch/destroy while Valkey is unreachable; with `fallbackReplay`
+  // the writes it received are copied back once Valkey answers a probe again
+  fallback?: Store;
+  fallbackReplay?: boolean;
+  fallbackProbeMs?: number;
+  // Read routing for get/all/ids/length. valkey-glide routes reads per client, so any
+  // strategy other than 'primary' sends them through `readClient`, which must be created
+  // with that `readFrom`. `get` stays on `client` for `readYourWritesMs` after this
+  // instance writes or destroys a session.
+  readFrom?: ReadFrom;
+  readClient?: ValkeyClient;
+  readYourWritesMs?: number;
   logErrors?: boolean;
-  serializer?: {
-    stringify: (obj: any) => string;
-    parse: (str: string) => any | Promise<any>;
-  };
+  storage?: StorageMode;
+  dirtyTracking?: boolean;
+  compression?: CompressionOptions;
+  encryption?: EncryptionOptions;
+  schemaVersion?: number;
+  migrations?: SessionMigrations;
+  writeBackMigrations?: boolean;
+  // Per-user session index: owner resolved by `getUserId` or a dot path such as 'passport.user'
+  userIdField?: string;
+  getUserId?: (session: SessionData) => string | number | null | undefined;
+  userIndexPrefix?: string;
+  maxSessionsPerUser?: number;
+  evictionPolicy?: EvictionPolicy;
+  concurrency?: ConcurrencyMode;
+  onConflict?: ConflictHandler;
+  mergeStrategy?: MergeStrategy;
+  serializer?: Serializer | BinarySerializer;
 }
\ No newline at end of file
@@ -417,6 +417,50 @@ describeLoadTest('Load Testing E2E', () => {
     }, 30000);
   });
 
+  describe('Command Batching', () => {
+    it('should compare throughput with and without batching', async () => {
+      const operationCount = 2000;
+      const batchedStore = new ValkeyStore({
+        client: client,
+        prefix: 'load-test-sess:',
+        ttl: 3600,
+        logErrors: false,
+        batching: true,
+      });
+
+      // Issue set, touch and destroy calls all at once, as a busy server would
+      const runOperations = (target: ValkeyStore, label: string) => measureTime(() =>
+        Promise.all(Array.from({ length: operationCount }, (_, i) => {
+          const sid = `${label}-${i}`;
+          const sessionData = { cookie: { originalMaxAge: 3600000 }, index: i } as any;
+
+          switch (i % 3) {
+            case 0:
+              return target.set(sid, sessionData);
+            case 1:
+              return target.set(sid, sessionData).then(() => target.touch(sid, sessionData));
+            default:
+              return target.set(sid, sessionData).then(() => target.destroy(sid));
+          }
+        }))
+      );
+
+      const { duration: directDuration } = await runOperations(store, 'direct');
+      const { duration: batchedDuration } = await runOperations(batchedStore, 'batched');
+
+      const directOpsPerSecond = operationCount / (directDuration / 1000);
+      const batchedOpsPerSecond = operationCount / (batchedDuration / 1000);
+      console.log(`Without batching: ${directOpsPerSecond.toFixed(2)} ops/sec`);
+      console.log(`With batching: ${batchedOpsPerSecond.toFixed(2)} ops/sec (${(batchedOpsPerSecond / directOpsPerSecond).toFixed(2)}x)`);
+
+      // Both stores must leave the same sessions behind
+      const remaining = await batchedStore.ids();
+      const expected = Math.ceil(operationCount / 3) + Math.ceil((operationCount - 1) / 3);
+      expect(remaining.filter(sid => sid.startsWith('direct-'))).toHaveLength(expected);
+      expect(remaining.filter(sid => sid.startsWith('batched-'))).toHaveLength(expected);
+    }, 60000);
+  });
+
   describe('Stress Testing', () => {
     it('should handle extreme concurrent load', async () => {
       const extremeLoad = 2000;
@@ -211,6 +211,61 @@ describe('ValkeyStore Cluster Integration', () => {
       }
     }, 30000);
 
+    it('should page through sessions with serialized cluster cursors', async () => {
+      if (!client) {
+        console.log('Cluster not available, skipping test');
+        return;
+      }
+
+      const sessionIds = Array.from({ length: 60 }, (_, i) => createTestSessionId(`cluster-page-${i}`));
+      for (const sessionId of sessionIds) {
+        await store.set(sessionId, generateSessionData());
+      }
+
+      const seen = new Set<string>();
+      let cursor: string | null = null;
+      let pages = 0;
+
+      do {
+        const page: any = await store.page({ cursor, limit: 25 });
+        expect(Object.keys(page.sessions).length).toBeLessThanOrEqual(25);
+        Object.keys(page.sessions).forEach(sid => seen.add(sid));
+        cursor = page.nextCursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBeGreaterThanOrEqual(3);
+      sessionIds.forEach(sessionId => expect(seen.has(sessionId)).toBe(true));
+    }, 30000);
+
+    it('should scan primaries in parallel for ids and length', async () => {
+      if (!client) {
+        console.log('Cluster not available, skipping test');
+        return;
+      }
+
+      const sessionIds = Array.from({ length: 30 }, (_, i) => createTestSessionId(`cluster-parallel-${i}`));
+      for (const sessionId of sessionIds) {
+        await store.set(sessionId, generateSessionData());
+      }
+
+      const parallelStore = await createTestStore({ useCluster: true, scanParallelism: 3, scanCount: 5 });
+
+      try {
+        const nodes = new Set<string>();
+        parallelStore.store.on('scanProgress', (progress: any) => nodes.add(progress.node));
+
+        const ids = await parallelStore.store.ids();
+        sessionIds.forEach(sessionId => expect(ids).toContain(sessionId));
+        expect(await parallelStore.store.length()).toBe(ids.length);
+        expect(nodes.size).toBeGreaterThan(1);
+      } finally {
+        if (parallelStore.client) {
+          await safeCloseClient(parallelStore.client);
+        }
+      }
+    }, 30000);
+
     it('should handle promise-based API in cluster mode', async () => {
       if (!client) {
         console.log('Cluster not available, skipping test');
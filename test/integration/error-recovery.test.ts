@@ -11,6 +11,7 @@ import {
   waitForValkey,
   ErrorSimulator,
 } from '../utils/test-helpers';
+import { StoreUnavailableError } from '../../src';
 
 describe('Error Recovery Integration Tests', () => {
   beforeAll(async () => {
@@ -459,4 +460,39 @@ describe('Error Recovery Integration Tests', () => {
       }
     });
   });
+
+  describe('Circuit Breaker', () => {
+    it('should fail fast once the circuit opens during an outage', async () => {
+      const result = await createTestStore({
+        logErrors: false,
+        circuitBreaker: { minimumRequests: 3, failureThreshold: 0.5, cooldownMs: 60000 },
+      });
+      const store = result.store;
+      const client = result.client;
+      const states: string[] = [];
+
+      store.on('error', () => {});
+      store.on('circuitStateChange', (state: string) => states.push(state));
+
+      try {
+        const sessionId = createTestSessionId('circuit');
+        await store.set(sessionId, generateSessionData() as any);
+
+        // Simulate the outage by closing the client
+        await client.close();
+
+        for (let i = 0; i < 2; i++) {
+          await expect(store.get(sessionId)).rejects.toBeInstanceOf(Error);
+        }
+
+        expect(store.circuitState).toBe('open');
+        expect(states).toEqual(['open']);
+
+        const error = await store.get(sessionId).catch((err: any) => err);
+        expect(error).toBeInstanceOf(StoreUnavailableError);
+      } finally {
+        // Client already closed
+      }
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Integration tests for hash storage mode with real Valkey
+ */
+
+import {
+  createTestStore,
+  safeCloseClient,
+  generateSessionData,
+  cleanupTestData,
+  createTestSessionId,
+  waitForValkey,
+  TEST_CONFIG,
+} from '../utils/test-helpers';
+
+describe('Hash Storage Integration Tests', () => {
+  let store: any;
+  let client: any;
+
+  beforeAll(async () => {
+    await waitForValkey(30, 1000);
+  }, 60000);
+
+  beforeEach(async () => {
+    const result = await createTestStore({ storage: 'hash' });
+    store = result.store;
+    client = result.client;
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await cleanupTestData(client);
+      await safeCloseClient(client);
+    }
+  });
+
+  it('should store each top-level property as a hash field', async () => {
+    const sessionId = createTestSessionId('hash-fields');
+    const sessionData = generateSessionData({ userId: 'hash-user', hasCart: true });
+
+    await store.set(sessionId, sessionData);
+
+    const entries = await client.hgetall(`${TEST_CONFIG.TEST_PREFIX}${sessionId}`);
+    const fields = Object.fromEntries(entries.map((e: any) => [e.field.toString(), e.value.toString()]));
+
+    expect(Object.keys(fields).sort()).toEqual(Object.keys(sessionData).sort());
+    expect(JSON.parse(fields.userId)).toBe('hash-user');
+    expect(JSON.parse(fields.cart)).toEqual(sessionData.cart);
+
+    const ttl = await client.ttl(`${TEST_CONFIG.TEST_PREFIX}${sessionId}`);
+    expect(ttl).toBeGreaterThan(0);
+  });
+
+  it('should round-trip sessions through get', async () => {
+    const sessionId = createTestSessionId('hash-roundtrip');
+    const sessionData = generateSessionData({ hasCart: true });
+
+    await store.set(sessionId, sessionData);
+
+    expect(await store.get(sessionId)).toEqual(sessionData);
+    expect(await store.get(createTestSessionId('hash-missing'))).toBeNull();
+  });
+
+  it('should only write changed fields after a session was loaded', async () => {
+    const sessionId = createTestSessionId('hash-partial');
+    const sessionData = generateSessionData({ userId: 'partial-user', hasCart: true });
+
+    await store.set(sessionId, sessionData);
+    const loaded = await store.get(sessionId);
+
+    const scriptSpy = jest.spyOn(client, 'invokeScript');
+    loaded.cart.items.push({ id: 'item3', name: 'Third Product', price: 5, quantity: 1 });
+    await store.set(sessionId, loaded);
+
+    expect(scriptSpy).toHaveBeenCalledTimes(1);
+    const args: string[] = (scriptSpy.mock.calls[0][1] as any).args;
+    expect(args[1]).toBe('1');
+    expect(args).toContain('cart');
+    expect(args).not.toContain('userId');
+
+    const stored = await store.get(sessionId);
+    expect(stored.cart.items).toHaveLength(3);
+    expect(stored.userId).toBe('partial-user');
+  });
+
+  it('should remove fields deleted from the session', async () => {
+    const sessionId = createTestSessionId('hash-remove');
+    const sessionData = generateSessionData({ hasCart: true });
+
+    await store.set(sessionId, sessionData);
+    const loaded = await store.get(sessionId);
+
+    delete loaded.cart;
+    await store.set(sessionId, loaded);
+
+    const exists = await client.hexists(`${TEST_CONFIG.TEST_PREFIX}${sessionId}`, 'cart');
+    expect(exists).toBe(false);
+    expect((await store.get(sessionId)).cart).toBeUndefined();
+  });
+
+  it('should fully rewrite a session that disappeared after it was loaded', async () => {
+    const sessionId = createTestSessionId('hash-vanished');
+    const sessionData = generateSessionData({ hasCart: true });
+
+    await store.set(sessionId, sessionData);
+    const loaded = await store.get(sessionId);
+
+    await client.del([`${TEST_CONFIG.TEST_PREFIX}${sessionId}`]);
+
+    loaded.lastActivity = new Date().toISOString();
+    await store.set(sessionId, loaded);
+
+    expect(await store.get(sessionId)).toEqual(loaded);
+  });
+
+  it('should support touch, destroy and all on the hash layout', async () => {
+    const sessionIds = [createTestSessionId('hash-all'), createTestSessionId('hash-all')];
+    for (const sessionId of sessionIds) {
+      await store.set(sessionId, generateSessionData());
+    }
+
+    const key = `${TEST_CONFIG.TEST_PREFIX}${sessionIds[0]}`;
+    await client.expire(key, 10);
+    await store.touch(sessionIds[0], generateSessionData());
+    expect(await client.ttl(key)).toBeGreaterThan(10);
+
+    const all = await store.all();
+    expect(Object.keys(all)).toEqual(expect.arrayContaining(sessionIds));
+
+    await store.destroy(sessionIds[0]);
+    expect(await store.get(sessionIds[0])).toBeNull();
+    expect(await store.length()).toBe(1);
+  });
+
+  it('should reject unknown storage modes', async () => {
+    const { ValkeyStore } = await import('../../src');
+    expect(() => new ValkeyStore({ client, storage: 'list' as any })).toThrow('Invalid storage mode: list');
+  });
+});
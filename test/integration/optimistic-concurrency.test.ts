@@ -0,0 +1,82 @@
+/**
+ * Integration tests for optimistic concurrency with real Valkey
+ */
+
+import {
+  createTestStore,
+  safeCloseClient,
+  generateSessionData,
+  cleanupTestData,
+  createTestSessionId,
+  waitForValkey,
+  TEST_CONFIG,
+} from '../utils/test-helpers';
+import { SessionConflictError } from '../../src';
+
+describe('Optimistic Concurrency Integration Tests', () => {
+  let store: any;
+  let client: any;
+
+  beforeAll(async () => {
+    await waitForValkey(30, 1000);
+  }, 60000);
+
+  beforeEach(async () => {
+    const result = await createTestStore({ concurrency: 'optimistic', logErrors: false });
+    store = result.store;
+    client = result.client;
+    store.on('error', () => {});
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await cleanupTestData(client);
+      await safeCloseClient(client);
+    }
+  });
+
+  it('should detect lost updates between concurrent read-modify-write cycles', async () => {
+    const sessionId = createTestSessionId('occ-conflict');
+    await store.set(sessionId, generateSessionData({ userId: 'occ-user' }));
+
+    const [first, second] = await Promise.all([store.get(sessionId), store.get(sessionId)]);
+
+    await store.set(sessionId, { ...first, fromA: true });
+    await expect(store.set(sessionId, { ...second, fromB: true })).rejects.toBeInstanceOf(SessionConflictError);
+
+    const result = await store.get(sessionId);
+    expect(result.fromA).toBe(true);
+    expect(result.fromB).toBeUndefined();
+    expect(result.__version).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should keep the TTL on versioned writes', async () => {
+    const sessionId = createTestSessionId('occ-ttl');
+    await store.set(sessionId, generateSessionData());
+
+    const session = await store.get(sessionId);
+    await store.set(sessionId, { ...session, updated: true });
+
+    const ttl = await client.ttl(`${TEST_CONFIG.TEST_PREFIX}${sessionId}`);
+    expect(ttl).toBeGreaterThan(0);
+  });
+
+  it('should merge concurrent updates with onConflict', async () => {
+    await safeCloseClient(client);
+    const result = await createTestStore({
+      concurrency: 'optimistic',
+      onConflict: (mine: any, theirs: any) => ({ ...mine, items: [...(theirs?.items || []), ...mine.items.slice(-1)] }),
+    });
+    store = result.store;
+    client = result.client;
+
+    const sessionId = createTestSessionId('occ-merge');
+    await store.set(sessionId, { ...generateSessionData(), items: [] });
+
+    const sessions = await Promise.all([1, 2, 3].map(() => store.get(sessionId)));
+    await Promise.all(sessions.map((session: any, i: number) => store.set(sessionId, { ...session, items: [...session.items, `item-${i}`] })));
+
+    const merged = await store.get(sessionId);
+    expect(merged.items.sort()).toEqual(['item-0', 'item-1', 'item-2']);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Integration tests for per-session distributed locks with real Valkey
+ */
+
+import {
+  createTestStore,
+  safeCloseClient,
+  cleanupTestData,
+  createTestSessionId,
+  waitForValkey,
+  TEST_CONFIG,
+} from '../utils/test-helpers';
+import { SessionLockError } from '../../src';
+
+describe('Session Lock Integration Tests', () => {
+  let store: any;
+  let client: any;
+
+  beforeAll(async () => {
+    await waitForValkey(30, 1000);
+  }, 60000);
+
+  beforeEach(async () => {
+    const result = await createTestStore();
+    store = result.store;
+    client = result.client;
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await cleanupTestData(client, `{${TEST_CONFIG.TEST_PREFIX}`);
+      await cleanupTestData(client);
+      await safeCloseClient(client);
+    }
+  });
+
+  it('should hold an expiring lock key during the critical section', async () => {
+    const sessionId = createTestSessionId('lock-held');
+    const lockKey = `{${TEST_CONFIG.TEST_PREFIX}${sessionId}}:lock`;
+
+    await store.withLock(sessionId, async () => {
+      const ttl = await client.pttl(lockKey);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(2000);
+    }, { ttlMs: 2000 });
+
+    expect(await client.exists([lockKey])).toBe(0);
+  });
+
+  it('should serialize read-modify-write cycles across stores', async () => {
+    const sessionId = createTestSessionId('lock-counter');
+    const other = await createTestStore();
+
+    try {
+      await store.set(sessionId, { cookie: { originalMaxAge: 60000 }, counter: 0 });
+
+      const increment = (target: any) => target.withLock(sessionId, async () => {
+        const session = await target.get(sessionId);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await target.set(sessionId, { ...session, counter: session.counter + 1 });
+      }, { waitMs: 5000 });
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) => increment(i % 2 ? other.store : store)));
+
+      expect((await store.get(sessionId)).counter).toBe(10);
+    } finally {
+      await safeCloseClient(other.client);
+    }
+  });
+
+  it('should time out while another holder keeps the lock', async () => {
+    const sessionId = createTestSessionId('lock-timeout');
+
+    await store.withLock(sessionId, async () => {
+      await expect(store.withLock(sessionId, () => undefined, { waitMs: 100 })).rejects.toBeInstanceOf(SessionLockError);
+    });
+  });
+});
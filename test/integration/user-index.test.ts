@@ -0,0 +1,169 @@
+/**
+ * Integration tests for the per-user session index with real Valkey
+ */
+
+import {
+  createTestStore,
+  safeCloseClient,
+  generateSessionData,
+  cleanupTestData,
+  createTestSessionId,
+  waitForValkey,
+  TEST_CONFIG,
+} from '../utils/test-helpers';
+
+describe('User Index Integration Tests', () => {
+  let store: any;
+  let client: any;
+
+  const indexKey = (userId: string) => `${TEST_CONFIG.TEST_PREFIX}user:{${userId}}`;
+
+  beforeAll(async () => {
+    await waitForValkey(30, 1000);
+  }, 60000);
+
+  beforeEach(async () => {
+    const result = await createTestStore({ userIdField: 'userId', userIndexPrefix: `${TEST_CONFIG.TEST_PREFIX}user:` });
+    store = result.store;
+    client = result.client;
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await cleanupTestData(client);
+      await safeCloseClient(client);
+    }
+  });
+
+  it('should index sessions by user and expire the index with them', async () => {
+    const first = createTestSessionId('user-a1');
+    const second = createTestSessionId('user-a2');
+
+    await store.set(first, generateSessionData({ userId: 'alice' }));
+    await store.set(second, generateSessionData({ userId: 'alice' }));
+    await store.set(createTestSessionId('user-b1'), generateSessionData({ userId: 'bob' }));
+
+    expect((await store.idsForUser('alice')).sort()).toEqual([first, second].sort());
+    expect(Object.keys(await store.allForUser('alice')).sort()).toEqual([first, second].sort());
+
+    const ttl = await client.ttl(indexKey('alice'));
+    expect(ttl).toBeGreaterThan(0);
+  });
+
+  it('should not index anonymous sessions', async () => {
+    const { userId, ...anonymous } = generateSessionData();
+
+    await store.set(createTestSessionId('anon'), anonymous);
+
+    expect(await client.exists([indexKey(userId!)])).toBe(0);
+  });
+
+  it('should remove destroyed sessions from the index', async () => {
+    const sessionId = createTestSessionId('user-destroy');
+
+    await store.set(sessionId, generateSessionData({ userId: 'carol' }));
+    await store.destroy(sessionId);
+
+    expect(await store.idsForUser('carol')).toEqual([]);
+  });
+
+  it('should destroy every session of a user', async () => {
+    const sessions = [createTestSessionId('user-d1'), createTestSessionId('user-d2')];
+    const other = createTestSessionId('user-e1');
+
+    for (const sessionId of sessions) {
+      await store.set(sessionId, generateSessionData({ userId: 'dave' }));
+    }
+    await store.set(other, generateSessionData({ userId: 'erin' }));
+
+    expect(await store.destroyAllForUser('dave')).toBe(2);
+
+    for (const sessionId of sessions) {
+      expect(await store.get(sessionId)).toBeNull();
+    }
+    expect(await store.get(other)).not.toBeNull();
+    expect(await store.destroyAllForUser('dave')).toBe(0);
+  });
+
+  it('should drop sessions that changed owner', async () => {
+    const sessionId = createTestSessionId('user-switch');
+
+    await store.set(sessionId, generateSessionData({ userId: 'frank' }));
+    await store.set(sessionId, generateSessionData({ userId: 'grace' }));
+
+    expect(await store.allForUser('frank')).toEqual({});
+    expect(await client.zcard(indexKey('frank'))).toBe(0);
+    expect(await store.idsForUser('grace')).toEqual([sessionId]);
+  });
+
+  it('should skip expired entries', async () => {
+    const sessionId = createTestSessionId('user-expired');
+    await client.zadd(indexKey('heidi'), { [sessionId]: Date.now() - 1000 });
+
+    expect(await store.idsForUser('heidi')).toEqual([]);
+  });
+
+  describe('maxSessionsPerUser', () => {
+    const createCappedStore = async (options: any) => {
+      await safeCloseClient(client);
+      const result = await createTestStore({
+        userIdField: 'userId',
+        userIndexPrefix: `${TEST_CONFIG.TEST_PREFIX}user:`,
+        ...options,
+      });
+      store = result.store;
+      client = result.client;
+    };
+
+    it('should evict the oldest session above the cap', async () => {
+      await createCappedStore({ maxSessionsPerUser: 2 });
+      const evicted: string[] = [];
+      store.on('evicted', (sid: string) => evicted.push(sid));
+
+      const sessions = [1, 2, 3].map(i => createTestSessionId(`cap-oldest-${i}`));
+      for (const sessionId of sessions) {
+        await store.set(sessionId, generateSessionData({ userId: 'ivan' }));
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      // Re-saving the oldest session does not make it younger
+      await store.set(sessions[1], generateSessionData({ userId: 'ivan' }));
+
+      expect(evicted).toEqual([sessions[0]]);
+      expect(await store.get(sessions[0])).toBeNull();
+      expect((await store.idsForUser('ivan')).sort()).toEqual(sessions.slice(1).sort());
+    });
+
+    it('should evict the least recently touched session with the lru policy', async () => {
+      await createCappedStore({ maxSessionsPerUser: 2, evictionPolicy: 'lru' });
+      const evicted: string[] = [];
+      store.on('evicted', (sid: string) => evicted.push(sid));
+
+      const [first, second, third] = [1, 2, 3].map(i => createTestSessionId(`cap-lru-${i}`));
+      await store.set(first, generateSessionData({ userId: 'judy' }));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.set(second, generateSessionData({ userId: 'judy' }));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.touch(first, generateSessionData({ userId: 'judy' }));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.set(third, generateSessionData({ userId: 'judy' }));
+
+      expect(evicted).toEqual([second]);
+      expect(await store.get(first)).not.toBeNull();
+      expect(await store.get(second)).toBeNull();
+    });
+
+    it('should enforce the cap under concurrent logins', async () => {
+      await createCappedStore({ maxSessionsPerUser: 3 });
+
+      const sessions = Array.from({ length: 10 }, (_, i) => createTestSessionId(`cap-race-${i}`));
+      await Promise.all(sessions.map(sessionId => store.set(sessionId, generateSessionData({ userId: 'mallory' }))));
+
+      const remaining = await store.idsForUser('mallory');
+      expect(remaining).toHaveLength(3);
+
+      const live = await Promise.all(sessions.map(sessionId => store.get(sessionId)));
+      expect(live.filter(Boolean)).toHaveLength(3);
+    });
+  });
+});
@@ -161,8 +161,8 @@ describe('Multi-Server Session Sharing', () => {
     });
   }
 
-  async function setupServers(useCluster = false) {
-    const result = await createTestStore({ useCluster });
+  async function setupServers(useCluster = false, storeOptions: Record<string, any> = {}) {
+    const result = await createTestStore({ useCluster, ...storeOptions });
     store = result.store;
     client = result.client;
 
@@ -416,6 +416,37 @@ describe('Multi-Server Session Sharing', () => {
     });
   });
 
+  describe('With a merge strategy', () => {
+    beforeEach(async () => {
+      await setupServers(false, { mergeStrategy: 'union-by-id', logErrors: false });
+      store.on('error', () => {});
+    });
+
+    it('should keep every concurrent cart update', async () => {
+      const [serverA, serverB, serverC] = servers;
+      const agentA = request.agent(serverA.app);
+
+      const initResponse = await agentA.post('/cart/add').send({ item: 'initial' });
+      const cookies = initResponse.headers['set-cookie'];
+
+      const agentB = request.agent(serverB.app);
+      agentB.jar.setCookies(cookies);
+      const agentC = request.agent(serverC.app);
+      agentC.jar.setCookies(cookies);
+
+      const responses = await Promise.all([
+        agentA.post('/cart/add').send({ item: 'from-a' }),
+        agentB.post('/cart/add').send({ item: 'from-b' }),
+        agentC.post('/cart/add').send({ item: 'from-c' })
+      ]);
+      responses.forEach(response => expect(response.status).toBe(200));
+
+      const cartResponse = await agentA.get('/cart');
+      expect(cartResponse.body.cart.map((entry: any) => entry.item).sort())
+        .toEqual(['from-a', 'from-b', 'from-c', 'initial']);
+    });
+  });
+
   describe('Cluster Mode', () => {
     beforeEach(async () => {
       try {
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for pipelining of set/touch/destroy commands
+ */
+
+import { Batch } from '@valkey/valkey-glide';
+import { ValkeyStore } from '../../src';
+
+describe('Command Batching', () => {
+  let data: Map<string, any>;
+  let queued: Map<Batch, Array<() => any>>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  // Record commands added to a batch so the mock client can replay them on exec
+  const recordCommand = (name: string, run: (...args: any[]) => any) =>
+    jest.spyOn(Batch.prototype as any, name).mockImplementation(function (this: any, ...args: any[]) {
+      const commands = queued.get(this) || [];
+      commands.push(() => run(...args));
+      queued.set(this, commands);
+      return this;
+    });
+
+  beforeEach(() => {
+    data = new Map();
+    queued = new Map();
+
+    recordCommand('set', (key: string, value: any) => { data.set(key, value); return 'OK'; });
+    recordCommand('expire', (key: string) => data.has(key));
+    recordCommand('del', (keys: string[]) => keys.filter(key => data.delete(key)).length);
+
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async () => 'OK'),
+      del: jest.fn(async () => 0),
+      expire: jest.fn(async () => true),
+      exec: jest.fn(async (batch: Batch) => (queued.get(batch) || []).map(run => run())),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send commands issued together as one pipeline', async () => {
+    const store = new ValkeyStore({ client: mockClient, batching: true });
+
+    await Promise.all([
+      store.set('a', { cookie, n: 1 } as any),
+      store.set('b', { cookie, n: 2 } as any),
+      store.touch('a', { cookie } as any),
+      store.destroy('c'),
+    ]);
+
+    expect(mockClient.exec).toHaveBeenCalledTimes(1);
+    const [batch, raiseOnError] = mockClient.exec.mock.calls[0];
+    expect(batch.isAtomic).toBe(false);
+    expect(raiseOnError).toBe(false);
+    expect(mockClient.set).not.toHaveBeenCalled();
+
+    expect(await store.get('a')).toEqual({ cookie, n: 1 });
+    expect(await store.get('b')).toEqual({ cookie, n: 2 });
+  });
+
+  it('should resolve callbacks individually', async () => {
+    const store = new ValkeyStore({ client: mockClient, batching: true });
+
+    const sets = ['a', 'b'].map(sid => new Promise<void>((resolve, reject) => {
+      store.set(sid, { cookie } as any, (err) => err ? reject(err) : resolve());
+    }));
+
+    await expect(Promise.all(sets)).resolves.toEqual([undefined, undefined]);
+  });
+
+  it('should only fail the command that errored', async () => {
+    const store = new ValkeyStore({ client: mockClient, batching: true, logErrors: false });
+    store.on('error', () => {});
+    mockClient.exec.mockImplementation(async (batch: Batch) =>
+      (queued.get(batch) || []).map((run, i) => i === 1 ? new Error('OOM command not allowed') : run()));
+
+    const results = await Promise.allSettled([
+      store.set('a', { cookie } as any),
+      store.set('b', { cookie } as any),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toEqual({ status: 'rejected', reason: new Error('OOM command not allowed') });
+  });
+
+  it('should fail every command when the pipeline fails', async () => {
+    const store = new ValkeyStore({ client: mockClient, batching: true, logErrors: false });
+    store.on('error', () => {});
+    mockClient.exec.mockRejectedValue(new Error('connection closed'));
+
+    const results = await Promise.allSettled([store.set('a', { cookie } as any), store.destroy('b')]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should flush early once maxBatchSize commands are queued', async () => {
+    const store = new ValkeyStore({ client: mockClient, batching: { maxBatchSize: 2 } });
+
+    await Promise.all(['a', 'b', 'c'].map(sid => store.destroy(sid)));
+
+    expect(mockClient.exec).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait windowMs before flushing', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new ValkeyStore({ client: mockClient, batching: { windowMs: 5 } });
+      const done = store.destroy('a');
+
+      await jest.advanceTimersByTimeAsync(4);
+      expect(mockClient.exec).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      await done;
+      expect(mockClient.exec).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should send commands directly when batching is disabled', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await store.set('a', { cookie } as any);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(mockClient.exec).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid batching options', () => {
+    expect(() => new ValkeyStore({ client: mockClient, batching: { windowMs: -1 } }))
+      .toThrow('batching.windowMs must be a non-negative number of milliseconds');
+    expect(() => new ValkeyStore({ client: mockClient, batching: { maxBatchSize: 0 } }))
+      .toThrow('batching.maxBatchSize must be a positive integer');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the circuit breaker around store operations
+ */
+
+import { ClosingError, RequestError, TimeoutError } from '@valkey/valkey-glide';
+import { ValkeyStore, StoreUnavailableError } from '../../src';
+import { CircuitBreaker } from '../../src/circuit-breaker';
+
+describe('Circuit Breaker', () => {
+  let mockClient: any;
+  let now: number;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const options = { failureThreshold: 0.5, minimumRequests: 4, windowMs: 10000, cooldownMs: 5000 };
+
+  const attempt = (store: ValkeyStore) => store.get('sid').then(() => 'ok', (error) => error);
+
+  beforeEach(() => {
+    now = 1000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockClient = {
+      get: jest.fn(async () => JSON.stringify({ cookie })),
+      set: jest.fn(async () => 'OK'),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createStore = () => {
+    const store = new ValkeyStore({ client: mockClient, circuitBreaker: options, logErrors: false });
+    store.on('error', () => {});
+    return store;
+  };
+
+  it('should open once the failure rate reaches the threshold and fail fast', async () => {
+    const store = createStore();
+    const changes: string[][] = [];
+    store.on('circuitStateChange', (state, previous) => changes.push([previous, state]));
+
+    await attempt(store);
+    await attempt(store);
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+    await attempt(store);
+    expect(store.circuitState).toBe('closed');
+
+    await attempt(store);
+    expect(store.circuitState).toBe('open');
+    expect(changes).toEqual([['closed', 'open']]);
+
+    const error = await attempt(store);
+    expect(error).toBeInstanceOf(StoreUnavailableError);
+    expect(error.retryAfterMs).toBe(5000);
+    expect(mockClient.get).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not count errors that do not indicate an outage', async () => {
+    const store = createStore();
+    mockClient.get.mockRejectedValue(new RequestError('WRONGTYPE'));
+
+    for (let i = 0; i < 6; i++) {
+      await attempt(store);
+    }
+
+    expect(store.circuitState).toBe('closed');
+  });
+
+  it('should forget failures outside the window', async () => {
+    const store = createStore();
+    mockClient.get.mockRejectedValue(new ClosingError('closed'));
+    await attempt(store);
+    await attempt(store);
+    await attempt(store);
+
+    now += 10000;
+    await attempt(store);
+
+    expect(store.circuitState).toBe('closed');
+  });
+
+  it('should close again after a successful trial call', async () => {
+    const store = createStore();
+    const changes: string[] = [];
+    store.on('circuitStateChange', (state) => changes.push(state));
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+    for (let i = 0; i < 4; i++) {
+      await attempt(store);
+    }
+
+    now += 5000;
+    expect(store.circuitState).toBe('half-open');
+
+    mockClient.get.mockResolvedValue(JSON.stringify({ cookie }));
+    expect(await attempt(store)).toBe('ok');
+    expect(store.circuitState).toBe('closed');
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial call fails', async () => {
+    const store = createStore();
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+    for (let i = 0; i < 4; i++) {
+      await attempt(store);
+    }
+
+    now += 5000;
+    await attempt(store);
+
+    expect(store.circuitState).toBe('open');
+    expect(await attempt(store)).toBeInstanceOf(StoreUnavailableError);
+  });
+
+  it('should only let halfOpenRequests trial calls through', async () => {
+    const breaker = new CircuitBreaker({ ...options, cooldownMs: 0, minimumRequests: 1 }, () => {});
+    await breaker.execute(() => Promise.reject(new TimeoutError('timed out'))).catch(() => {});
+
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<void>(resolve => { release = resolve; }));
+
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(StoreUnavailableError);
+    release();
+    await trial;
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should not retry while the circuit is open', async () => {
+    const store = new ValkeyStore({ client: mockClient, circuitBreaker: { ...options, minimumRequests: 1 }, retry: { baseDelayMs: 0, maxDelayMs: 0 }, logErrors: false });
+    store.on('error', () => {});
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+
+    expect(await attempt(store)).toBeInstanceOf(StoreUnavailableError);
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail fast in bulk, lock and per-user operations while open', async () => {
+    const store = new ValkeyStore({ client: mockClient, circuitBreaker: { ...options, minimumRequests: 1 }, userIdField: 'userId', logErrors: false });
+    store.on('error', () => {});
+    mockClient.scan = jest.fn();
+    mockClient.zrange = jest.fn();
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+    await attempt(store);
+    expect(store.circuitState).toBe('open');
+
+    await expect(store.all()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.ids()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.length()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.clear()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.page()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.iterate().next()).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.idsForUser('u1')).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.allForUser('u1')).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.destroyAllForUser('u1')).rejects.toBeInstanceOf(StoreUnavailableError);
+    await expect(store.withLock('sid', () => 'never')).rejects.toBeInstanceOf(StoreUnavailableError);
+
+    expect(mockClient.scan).not.toHaveBeenCalled();
+    expect(mockClient.zrange).not.toHaveBeenCalled();
+    expect(mockClient.set).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 }, () => {}))
+      .toThrow('circuitBreaker.failureThreshold must be a failure rate above 0 and at most 1');
+    expect(() => new CircuitBreaker({ minimumRequests: 0 }, () => {}))
+      .toThrow('circuitBreaker.minimumRequests must be a positive integer');
+    expect(() => new CircuitBreaker({ cooldownMs: -1 }, () => {}))
+      .toThrow('circuitBreaker.windowMs must be positive and cooldownMs non-negative');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for batched clear() with UNLINK, dry runs, progress and cancellation
+ */
+
+import { GlideClusterClient } from '@valkey/valkey-glide';
+import { ValkeyStore } from '../../src';
+import { keySlot, parseSlotOwners } from '../../src/cluster';
+
+describe('Batched Clear', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  // SCAN returns two keys per call, with the offset as cursor, over the keys present when it started
+  let snapshot: string[] = [];
+  const scan = jest.fn(async (cursor: string) => {
+    if (cursor === '0') {
+      snapshot = Array.from(data.keys()).sort();
+    }
+    const keys = snapshot;
+    const offset = Number(cursor);
+    const next = offset + 2 < keys.length ? String(offset + 2) : '0';
+    return [next, keys.slice(offset, offset + 2)];
+  });
+
+  beforeEach(() => {
+    data = new Map(['a', 'b', 'c', 'd', 'e'].map(sid => [`sess:${sid}`, '{}']));
+    scan.mockClear();
+    mockClient = {
+      scan,
+      del: jest.fn(),
+      unlink: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+    };
+  });
+
+  it('should unlink each scan batch instead of deleting everything at once', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    expect(await store.clear()).toBe(5);
+
+    expect(mockClient.unlink.mock.calls.map(([keys]: [string[]]) => keys)).toEqual([
+      ['sess:a', 'sess:b'],
+      ['sess:c', 'sess:d'],
+      ['sess:e'],
+    ]);
+    expect(mockClient.del).not.toHaveBeenCalled();
+    expect(data.size).toBe(0);
+  });
+
+  it('should pass the number deleted to callbacks', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const args = await new Promise<any[]>(resolve => store.clear((...result: any[]) => resolve(result)));
+
+    expect(args).toEqual([null, 5]);
+  });
+
+  it('should count without deleting in a dry run', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const progress: any[] = [];
+
+    expect(await store.clear({ dryRun: true, onProgress: p => progress.push(p) })).toBe(5);
+
+    expect(mockClient.unlink).not.toHaveBeenCalled();
+    expect(progress).toEqual([
+      { scanned: 2, deleted: 0 },
+      { scanned: 4, deleted: 0 },
+      { scanned: 5, deleted: 0 },
+    ]);
+  });
+
+  it('should report progress after every batch', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const onProgress = jest.fn();
+
+    await store.clear({ onProgress });
+
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { scanned: 2, deleted: 2 },
+      { scanned: 4, deleted: 4 },
+      { scanned: 5, deleted: 5 },
+    ]);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const controller = new AbortController();
+
+    const deleted = await store.clear({
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    expect(deleted).toBe(2);
+    expect(mockClient.unlink).toHaveBeenCalledTimes(1);
+    expect(data.size).toBe(3);
+  });
+
+  it('should not start when the signal is already aborted', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    expect(await store.clear({ signal: AbortSignal.abort() })).toBe(0);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it('should unlink each batch with one command per primary in cluster mode', async () => {
+    const topology = [
+      'a 10.0.0.1:7000@17000 myself,master - 0 0 1 connected 0-8191',
+      'b 10.0.0.2:7000@17000 master - 0 0 2 connected 8192-16383',
+    ].join('\n');
+    const owners = parseSlotOwners(topology);
+    const clusterClient = Object.assign(Object.create(GlideClusterClient.prototype), {
+      customCommand: jest.fn(async () => topology),
+      scan: jest.fn(async () => [{ isFinished: () => true }, Array.from(data.keys())]),
+      unlink: jest.fn(async (keys: string[]) => {
+        if (new Set(keys.map(key => owners[keySlot(key)])).size > 1) {
+          throw new Error('UNLINK spans primaries');
+        }
+        return keys.filter(key => data.delete(key)).length;
+      }),
+    });
+    data.set('sess:{tag}1', '{}');
+    data.set('sess:{tag}2', '{}');
+    const store = new ValkeyStore({ client: clusterClient });
+
+    expect(await store.clear()).toBe(7);
+    expect(clusterClient.unlink).toHaveBeenCalledTimes(2);
+  });
+});
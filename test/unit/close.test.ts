@@ -0,0 +1,176 @@
+/**
+ * Unit tests for graceful shutdown with close()
+ */
+
+import { Batch, ConnectionError } from '@valkey/valkey-glide';
+import { MemoryStore } from 'express-session';
+import { ValkeyStore, StoreClosedError } from '../../src';
+
+describe('close()', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      expire: jest.fn(async (key: string) => data.has(key)),
+      ping: jest.fn(async () => 'PONG'),
+      zremRangeByScore: jest.fn(async () => 0),
+      invokeScript: jest.fn(async () => 1),
+      close: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should wait for in-flight operations before closing', async () => {
+    let finishWrite!: () => void;
+    mockClient.set.mockImplementation((key: string, value: any) => new Promise((resolve) => {
+      finishWrite = () => { data.set(key, value); resolve('OK'); };
+    }));
+    const store = new ValkeyStore({ client: mockClient });
+    const onClose = jest.fn();
+    store.on('close', onClose);
+
+    const saved = store.set('cart', { cookie, items: 3 } as any);
+    const closed = store.close();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(onClose).not.toHaveBeenCalled();
+
+    finishWrite();
+    await saved;
+
+    expect(await closed).toBe(0);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(data.has('sess:cart')).toBe(true);
+  });
+
+  it('should reject operations started after close', async () => {
+    const store = new ValkeyStore({ client: mockClient, logErrors: false });
+    store.on('error', () => {});
+    await store.close();
+
+    await expect(store.get('a')).rejects.toBeInstanceOf(StoreClosedError);
+    await expect(store.withLock('a', () => 1)).rejects.toThrow('Session store is closed');
+    expect(mockClient.get).not.toHaveBeenCalled();
+
+    const err = await new Promise(resolve => store.set('a', { cookie } as any, resolve));
+    expect(err).toBeInstanceOf(StoreClosedError);
+  });
+
+  it('should let a running withLock callback finish its own store calls', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    let resume!: () => void;
+    const paused = new Promise<void>(resolve => { resume = resolve; });
+
+    const locked = store.withLock('cart', async () => {
+      await paused;
+      await store.set('cart', { cookie, items: 4 } as any);
+      return store.get('cart');
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const closed = store.close();
+    resume();
+
+    expect(await locked).toEqual({ cookie, items: 4 });
+    expect(await closed).toBe(0);
+    expect(JSON.parse(data.get('sess:cart')).items).toBe(4);
+  });
+
+  it('should give up after timeoutMs and report what is still pending', async () => {
+    jest.useFakeTimers();
+    try {
+      mockClient.get.mockReturnValue(new Promise(() => {}));
+      const store = new ValkeyStore({ client: mockClient, logErrors: false });
+
+      store.get('stuck');
+      const closed = store.close({ timeoutMs: 500 });
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(await closed).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should send pipelined commands right away', async () => {
+    jest.useFakeTimers();
+    try {
+      jest.spyOn(Batch.prototype as any, 'del').mockReturnThis();
+      mockClient.exec = jest.fn(async () => [1]);
+      const store = new ValkeyStore({ client: mockClient, batching: { windowMs: 60000 } });
+
+      const destroyed = store.destroy('a');
+      const closed = store.close();
+      await jest.advanceTimersByTimeAsync(0);
+
+      await destroyed;
+      expect(await closed).toBe(0);
+      expect(mockClient.exec).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should close the client only when asked to', async () => {
+    const readClient = { close: jest.fn() };
+    const store = new ValkeyStore({ client: mockClient });
+    await store.close();
+    expect(mockClient.close).not.toHaveBeenCalled();
+
+    const closing = new ValkeyStore({ client: mockClient, readClient: readClient as any, readFrom: 'preferReplica' });
+    await closing.close({ closeClient: true });
+    expect(mockClient.close).toHaveBeenCalledTimes(1);
+    expect(readClient.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the same shutdown when called twice', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const onClose = jest.fn();
+    store.on('close', onClose);
+
+    await Promise.all([store.close(), store.close()]);
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the background timers', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: 1000 } });
+      await store.close();
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockClient.zremRangeByScore).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should replay writes buffered in the fallback store before closing', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback: new MemoryStore(), fallbackReplay: true, logErrors: false });
+    mockClient.set.mockRejectedValueOnce(new ConnectionError('connection refused'));
+
+    await store.set('a', { cookie, n: 1 } as any);
+    expect(store.degraded).toBe(true);
+
+    await store.close();
+
+    expect(store.degraded).toBe(false);
+    expect(JSON.parse(data.get('sess:a'))).toEqual({ cookie, n: 1 });
+  });
+
+  it('should reject an invalid timeout', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await expect(store.close({ timeoutMs: -1 })).rejects.toThrow('timeoutMs must be a non-negative number of milliseconds');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for cluster helpers and slot-aware MGET in cluster mode
+ */
+
+import { GlideClusterClient } from '@valkey/valkey-glide';
+import { ValkeyStore } from '../../src';
+import { keySlot, groupByOwner, mapWithConcurrency, parsePrimaries, parseSlotOwners } from '../../src/cluster';
+
+const topology = [
+  'a1 10.0.0.1:7000@17000 myself,master - 0 0 1 connected 0-5460',
+  'b1 10.0.0.2:7001@17001 master - 0 0 2 connected 5461-10922',
+  'c1 10.0.0.3:7002@17002 master - 0 0 3 connected 10923-16383',
+].join('\n');
+
+describe('Cluster key slots', () => {
+  it.each([
+    ['foo', 12182],
+    ['bar', 5061],
+    ['hello', 866],
+    ['', 0],
+  ])('should match CLUSTER KEYSLOT for %p', (key, slot) => {
+    expect(keySlot(key)).toBe(slot);
+  });
+
+  it('should only hash the first non-empty hash tag', () => {
+    expect(keySlot('{user1000}.following')).toBe(keySlot('user1000'));
+    expect(keySlot('foo{bar}{zap}')).toBe(keySlot('bar'));
+    expect(keySlot('foo{}{bar}')).toBe(keySlot('foo{}{bar}'));
+    expect(keySlot('foo{}{bar}')).not.toBe(keySlot('bar'));
+    expect(keySlot('foo{{bar}}zap')).toBe(keySlot('{bar'));
+  });
+
+  it('should group keys by owning primary and keep their positions', () => {
+    const owners = parseSlotOwners(topology);
+    const groups = groupByOwner(['foo', 'bar', 'hello', '{bar}1'], owners);
+
+    // Slots 5061 ('bar') and 866 ('hello') share the first primary
+    expect(groups.get('10.0.0.1:7000')).toEqual([1, 2, 3]);
+    expect(groups.get('10.0.0.3:7002')).toEqual([0]);
+    expect(groups.has('10.0.0.2:7001')).toBe(false);
+  });
+
+  it('should limit how many calls run at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+      return n * 2;
+    });
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('Cluster topology', () => {
+  it('should list healthy primaries that own slots', () => {
+    const nodes = [
+      'a1 10.0.0.1:7000@17000 myself,master - 0 0 1 connected 0-5460',
+      'b1 10.0.0.2:7001@17001,node-b master - 0 1700000000000 2 connected 5461-10922',
+      'c1 10.0.0.3:7002@17002 slave a1 0 1700000000000 1 connected',
+      'd1 10.0.0.4:7003@17003 master,fail - 0 1700000000000 3 disconnected 10923-16383',
+      'e1 10.0.0.5:7004@17004 master - 0 1700000000000 4 connected',
+      'f1 ::1:7005@17005 master - 0 1700000000000 5 connected 10923-16383',
+      '',
+    ].join('\n');
+
+    expect(parsePrimaries(nodes)).toEqual([
+      { host: '10.0.0.1', port: 7000 },
+      { host: '10.0.0.2', port: 7001 },
+      { host: '::1', port: 7005 },
+    ]);
+  });
+
+  it('should map every slot to its owning primary', () => {
+    const nodes = [
+      'a1 10.0.0.1:7000@17000 myself,master - 0 0 1 connected 0-99 100 [101->-b1]',
+      'b1 10.0.0.2:7001@17001 master - 0 0 2 connected 102-16382 [101-<-a1]',
+      'c1 10.0.0.3:7002@17002 master,fail - 0 0 3 disconnected 16383',
+    ].join('\n');
+
+    const owners = parseSlotOwners(nodes);
+
+    expect(owners).toHaveLength(16384);
+    expect(owners[0]).toBe('10.0.0.1:7000');
+    expect(owners[100]).toBe('10.0.0.1:7000');
+    expect(owners[101]).toBeUndefined();
+    expect(owners[102]).toBe('10.0.0.2:7001');
+    expect(owners[16383]).toBeUndefined();
+  });
+});
+
+describe('Slot-aware all() in cluster mode', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const owners = parseSlotOwners(topology);
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = Object.assign(Object.create(GlideClusterClient.prototype), {
+      customCommand: jest.fn(async () => topology),
+      // Glide splits multi-slot commands itself, but not across the primaries we group by
+      mget: jest.fn(async (keys: string[]) => {
+        if (new Set(keys.map(key => owners[keySlot(key)])).size > 1) {
+          throw new Error('MGET spans primaries');
+        }
+        return keys.map(key => data.get(key) ?? null);
+      }),
+    });
+  });
+
+  it('should issue one MGET per primary and merge the results', async () => {
+    const store = new ValkeyStore({ client: mockClient, mgetConcurrency: 2 });
+    const sessions: Record<string, any> = {};
+    for (let i = 0; i < 20; i++) {
+      sessions[`s${i}`] = { cookie, n: i };
+      data.set(`sess:s${i}`, JSON.stringify(sessions[`s${i}`]));
+    }
+
+    const keys = [...Array.from(data.keys()), 'sess:missing'];
+    jest.spyOn(store as any, 'scanBatches').mockImplementation(async function* () { yield keys; });
+
+    expect(await store.all()).toEqual(sessions);
+    expect(mockClient.mget).toHaveBeenCalledTimes(groupByOwner(keys, owners).size);
+    expect(mockClient.mget.mock.calls.length).toBeLessThanOrEqual(3);
+  });
+
+  it('should reuse the slot owners across reads', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    data.set('sess:a', JSON.stringify({ cookie }));
+    jest.spyOn(store as any, 'scanBatches').mockImplementation(async function* () { yield ['sess:a']; });
+
+    await store.all();
+    await store.all();
+
+    expect(mockClient.customCommand).toHaveBeenCalledTimes(1);
+    expect(mockClient.customCommand.mock.calls[0][0]).toEqual(['CLUSTER', 'NODES']);
+  });
+
+  it('should reject an invalid mgetConcurrency', () => {
+    expect(() => new ValkeyStore({ client: mockClient, mgetConcurrency: 0 }))
+      .toThrow('mgetConcurrency must be a positive integer');
+  });
+});
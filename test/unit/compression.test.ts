@@ -0,0 +1,102 @@
+/**
+ * Unit tests for transparent payload compression
+ */
+
+import { ValkeyStore } from '../../src';
+import { compress, decompress, isCompressed } from '../../src/compression';
+
+describe('Compression', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const largeSession = {
+    cookie: { originalMaxAge: 3600000, maxAge: 3600000 },
+    permissions: Array.from({ length: 500 }, (_, i) => `permission:${i}`),
+  } as any;
+
+  const smallSession = {
+    cookie: { originalMaxAge: 3600000, maxAge: 3600000 },
+    userId: 'user-1',
+  } as any;
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+    };
+  });
+
+  it('should leave payloads below the threshold uncompressed', async () => {
+    const store = new ValkeyStore({ client: mockClient, compression: { algorithm: 'gzip' } });
+
+    await store.set('small', smallSession);
+
+    expect(data.get('sess:small')).toBe(JSON.stringify(smallSession));
+  });
+
+  it.each(['gzip', 'deflate', 'brotli'] as const)('should compress large payloads with %s', async (algorithm) => {
+    const store = new ValkeyStore({ client: mockClient, compression: { algorithm } });
+
+    await store.set('large', largeSession);
+
+    const stored: Buffer = data.get('sess:large');
+    expect(Buffer.isBuffer(stored)).toBe(true);
+    expect(isCompressed(stored)).toBe(true);
+    expect(stored.length).toBeLessThan(JSON.stringify(largeSession).length);
+
+    expect(await store.get('large')).toEqual(largeSession);
+  });
+
+  it('should honour a custom threshold', async () => {
+    const store = new ValkeyStore({ client: mockClient, compression: { threshold: 0 } });
+
+    await store.set('small', smallSession);
+
+    expect(isCompressed(data.get('sess:small'))).toBe(true);
+    expect(await store.get('small')).toEqual(smallSession);
+  });
+
+  it('should read legacy uncompressed values', async () => {
+    const store = new ValkeyStore({ client: mockClient, compression: { algorithm: 'brotli' } });
+
+    data.set('sess:legacy-string', JSON.stringify(smallSession));
+    data.set('sess:legacy-bytes', Buffer.from(JSON.stringify(smallSession)));
+
+    expect(await store.get('legacy-string')).toEqual(smallSession);
+    expect(await store.get('legacy-bytes')).toEqual(smallSession);
+  });
+
+  it('should read compressed values even after compression is disabled', async () => {
+    await new ValkeyStore({ client: mockClient, compression: { algorithm: 'deflate' } }).set('large', largeSession);
+
+    const store = new ValkeyStore({ client: mockClient });
+    expect(await store.get('large')).toEqual(largeSession);
+  });
+
+  it('should decompress sessions returned by all()', async () => {
+    const store = new ValkeyStore({ client: mockClient, compression: { algorithm: 'gzip' } });
+
+    await store.set('large', largeSession);
+    await store.set('small', smallSession);
+
+    const sessions = await store.all();
+    expect(sessions).toEqual({ large: largeSession, small: smallSession });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new ValkeyStore({ client: mockClient, compression: { algorithm: 'lz4' as any } }))
+      .toThrow('Invalid compression algorithm: lz4');
+    expect(() => new ValkeyStore({ client: mockClient, compression: { threshold: -1 } }))
+      .toThrow('Compression threshold must be a non-negative number of bytes');
+  });
+
+  it('should fail on unknown algorithm codes', async () => {
+    const compressed = await compress(Buffer.from('payload'), 'gzip');
+    compressed[2] = 0x78;
+
+    await expect(decompress(compressed)).rejects.toThrow('Unknown compression algorithm code: 120');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for dirty tracking (skipping writes of unchanged sessions)
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Dirty Tracking', () => {
+  let mockClient: any;
+  let store: ValkeyStore;
+
+  const session = {
+    cookie: { originalMaxAge: 3600000, maxAge: 3600000 },
+    userId: 'user-1',
+  } as any;
+
+  beforeEach(() => {
+    mockClient = {
+      get: jest.fn().mockResolvedValue(JSON.stringify(session)),
+      set: jest.fn().mockResolvedValue('OK'),
+      expire: jest.fn().mockResolvedValue(true),
+      exists: jest.fn().mockResolvedValue(1),
+      del: jest.fn().mockResolvedValue(1),
+    };
+    store = new ValkeyStore({ client: mockClient, dirtyTracking: true });
+  });
+
+  it('should be disabled by default', async () => {
+    const plainStore = new ValkeyStore({ client: mockClient });
+    expect(plainStore.dirtyTracking).toBe(false);
+
+    const loaded = await plainStore.get('sid');
+    await plainStore.set('sid', loaded!);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(mockClient.expire).not.toHaveBeenCalled();
+    expect(plainStore.skippedWrites).toBe(0);
+  });
+
+  it('should turn a write of an unchanged session into an expiry refresh', async () => {
+    const loaded = await store.get('sid');
+    await store.set('sid', loaded!);
+
+    expect(mockClient.set).not.toHaveBeenCalled();
+    expect(mockClient.expire).toHaveBeenCalledWith('sess:sid', 3600);
+    expect(store.skippedWrites).toBe(1);
+  });
+
+  it('should write sessions that changed since they were loaded', async () => {
+    const loaded: any = await store.get('sid');
+    loaded.userId = 'user-2';
+    await store.set('sid', loaded);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(store.skippedWrites).toBe(0);
+
+    // The written payload becomes the new baseline
+    await store.set('sid', loaded);
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(store.skippedWrites).toBe(1);
+  });
+
+  it('should write sessions that were never loaded', async () => {
+    await store.set('new-sid', session);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(mockClient.expire).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a full write when the key no longer exists', async () => {
+    const loaded = await store.get('sid');
+    mockClient.expire.mockResolvedValue(false);
+
+    await store.set('sid', loaded!);
+
+    expect(mockClient.expire).toHaveBeenCalledTimes(1);
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(store.skippedWrites).toBe(0);
+  });
+
+  it('should not skip writes for sessions that were destroyed', async () => {
+    const loaded = await store.get('sid');
+    await store.destroy('sid');
+    await store.set('sid', loaded!);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record a baseline when the write fails', async () => {
+    mockClient.set.mockRejectedValueOnce(new Error('write failed'));
+    const quietStore = new ValkeyStore({ client: mockClient, dirtyTracking: true, logErrors: false });
+    quietStore.on('error', () => {});
+
+    await expect(quietStore.set('other', session)).rejects.toThrow('write failed');
+    await quietStore.set('other', session);
+
+    expect(mockClient.set).toHaveBeenCalledTimes(2);
+    expect(quietStore.skippedWrites).toBe(0);
+  });
+});
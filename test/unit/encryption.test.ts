@@ -0,0 +1,151 @@
+/**
+ * Unit tests for encryption at rest with key rotation
+ */
+
+import { randomBytes } from 'crypto';
+import { ValkeyStore, SessionDecryptionError } from '../../src';
+import { isCompressed } from '../../src/compression';
+
+describe('Encryption', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const key1 = randomBytes(32);
+  const key2 = randomBytes(32);
+
+  const session = {
+    cookie: { originalMaxAge: 3600000, maxAge: 3600000 },
+    email: 'jane@example.com',
+  } as any;
+
+  const createStore = (options: any = {}) => {
+    const store = new ValkeyStore({
+      client: mockClient,
+      logErrors: false,
+      encryption: { keys: { k1: key1 }, currentKeyId: 'k1' },
+      ...options,
+    });
+    store.on('error', () => {});
+    return store;
+  };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+    };
+  });
+
+  it('should store ciphertext and read the session back', async () => {
+    const store = createStore();
+
+    await store.set('sid', session);
+
+    const stored: Buffer = data.get('sess:sid');
+    expect(Buffer.isBuffer(stored)).toBe(true);
+    expect(stored.includes('jane@example.com')).toBe(false);
+    expect(stored.includes('k1')).toBe(true);
+
+    expect(await store.get('sid')).toEqual(session);
+    expect(await store.all()).toEqual({ sid: session });
+  });
+
+  it('should decrypt values written with older keys after rotation', async () => {
+    await createStore().set('old', session);
+
+    const store = createStore({ encryption: { keys: { k1: key1, k2: key2.toString('base64') }, currentKeyId: 'k2' } });
+    await store.set('new', session);
+
+    expect(data.get('sess:new').includes('k2')).toBe(true);
+    expect(await store.get('old')).toEqual(session);
+    expect(await store.get('new')).toEqual(session);
+  });
+
+  it('should surface unknown key ids through the error path', async () => {
+    await createStore({ encryption: { keys: { k2: key2 }, currentKeyId: 'k2' } }).set('sid', session);
+
+    const store = createStore();
+    const errors: Error[] = [];
+    store.on('error', (error) => errors.push(error));
+
+    await expect(store.get('sid')).rejects.toThrow(SessionDecryptionError);
+    await expect(store.get('sid')).rejects.toThrow('Unknown encryption key id: k2');
+    expect(errors[0]).toBeInstanceOf(SessionDecryptionError);
+
+    const callbackError = await new Promise((resolve) => store.get('sid', (err) => resolve(err)));
+    expect(callbackError).toBeInstanceOf(SessionDecryptionError);
+  });
+
+  it('should report sessions skipped by all() because they fail to decrypt', async () => {
+    await createStore({ encryption: { keys: { k2: key2 }, currentKeyId: 'k2' } }).set('foreign', session);
+    await createStore().set('own', session);
+
+    const store = createStore();
+    const errors: Error[] = [];
+    store.on('error', (error) => errors.push(error));
+
+    expect(await store.all()).toEqual({ own: session });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(SessionDecryptionError);
+    expect(errors[0].message).toBe('Unknown encryption key id: k2');
+  });
+
+  it('should reject tampered values', async () => {
+    const store = createStore();
+    await store.set('sid', session);
+
+    const stored: Buffer = data.get('sess:sid');
+    stored[stored.length - 1] ^= 0xff;
+
+    await expect(store.get('sid')).rejects.toThrow(SessionDecryptionError);
+  });
+
+  it('should reject values copied to another session key', async () => {
+    const store = createStore();
+    await store.set('victim', session);
+
+    data.set('sess:attacker', data.get('sess:victim'));
+
+    await expect(store.get('attacker')).rejects.toThrow(SessionDecryptionError);
+  });
+
+  it('should read legacy plaintext values unless encryption is required', async () => {
+    data.set('sess:legacy', JSON.stringify(session));
+
+    expect(await createStore().get('legacy')).toEqual(session);
+
+    const strictStore = createStore({ encryption: { keys: { k1: key1 }, currentKeyId: 'k1', requireEncryption: true } });
+    await expect(strictStore.get('legacy')).rejects.toThrow('Refusing to read an unencrypted session value');
+  });
+
+  it('should fail to read encrypted values without a keyring', async () => {
+    await createStore().set('sid', session);
+
+    const store = new ValkeyStore({ client: mockClient, logErrors: false });
+    store.on('error', () => {});
+
+    await expect(store.get('sid')).rejects.toThrow('Session value is encrypted but no encryption keys are configured');
+  });
+
+  it('should compress before encrypting', async () => {
+    const largeSession = { ...session, permissions: Array.from({ length: 500 }, (_, i) => `permission:${i}`) };
+    const store = createStore({ compression: { algorithm: 'gzip' } });
+
+    await store.set('large', largeSession);
+
+    const stored: Buffer = data.get('sess:large');
+    expect(stored.length).toBeLessThan(JSON.stringify(largeSession).length);
+    expect(isCompressed(stored)).toBe(false);
+    expect(await store.get('large')).toEqual(largeSession);
+  });
+
+  it('should validate the keyring', () => {
+    expect(() => createStore({ encryption: { keys: { k1: randomBytes(16) }, currentKeyId: 'k1' } }))
+      .toThrow('Encryption key "k1" must be 32 bytes');
+    expect(() => createStore({ encryption: { keys: { k1: key1 }, currentKeyId: 'k2' } }))
+      .toThrow('Current encryption key "k2" is not in the keyring');
+  });
+});
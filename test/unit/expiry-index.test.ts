@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the expiry index backing length() and ids()
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Expiry Index', () => {
+  let data: Map<string, any>;
+  let index: Map<string, number>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  const bound = (boundary: any, fallback: number) => boundary.value ?? fallback;
+
+  beforeEach(() => {
+    data = new Map();
+    index = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      unlink: jest.fn(async (keys: string[]) => {
+        if (keys.includes('session-index:sess:')) {
+          index.clear();
+        }
+        return keys.filter(key => data.delete(key)).length;
+      }),
+      expire: jest.fn(async (key: string) => data.has(key)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+      zadd: jest.fn(async (_key: string, members: Record<string, number>) => {
+        Object.entries(members).forEach(([sid, score]) => index.set(sid, score));
+        return 1;
+      }),
+      zrem: jest.fn(async (_key: string, sids: string[]) => sids.filter(sid => index.delete(sid)).length),
+      zcount: jest.fn(async (_key: string, min: any) =>
+        Array.from(index.values()).filter(score => score > bound(min, -Infinity)).length),
+      zrange: jest.fn(async (_key: string, range: any) =>
+        Array.from(index).filter(([, score]) => score >= bound(range.start, -Infinity)).map(([sid]) => sid)),
+      zremRangeByScore: jest.fn(async (_key: string, _min: any, max: any) => {
+        const expired = Array.from(index).filter(([, score]) => score <= bound(max, Infinity));
+        expired.forEach(([sid]) => index.delete(sid));
+        return expired.length;
+      }),
+    };
+  });
+
+  it('should count and list sessions from the index instead of scanning', async () => {
+    const store = new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: 0 } });
+
+    await store.set('a', { cookie } as any);
+    await store.set('b', { cookie } as any);
+    index.set('expired', Date.now() - 1000);
+
+    expect(await store.length()).toBe(2);
+    expect(await store.ids()).toEqual(['a', 'b']);
+    expect(mockClient.scan).not.toHaveBeenCalled();
+    expect(mockClient.zadd.mock.calls[0][0]).toBe('session-index:sess:');
+    expect(index.get('a')).toBeGreaterThan(Date.now() + 3500000);
+  });
+
+  it('should refresh expiry on touch and drop destroyed sessions', async () => {
+    const store = new ValkeyStore({ client: mockClient, expiryIndex: { key: 'live-sessions', pruneIntervalMs: 0 } });
+
+    await store.set('a', { cookie } as any);
+    index.set('a', 0);
+    await store.touch('a', { cookie } as any);
+    expect(index.get('a')).toBeGreaterThan(Date.now());
+
+    await store.destroy('a');
+    expect(index.has('a')).toBe(false);
+    expect(mockClient.zrem).toHaveBeenCalledWith('live-sessions', ['a']);
+  });
+
+  it('should drop sessions that are saved already expired', async () => {
+    const store = new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: 0 } });
+    await store.set('a', { cookie } as any);
+
+    await store.set('a', { cookie: { ...cookie, expires: new Date(Date.now() - 1000) } } as any);
+
+    expect(index.has('a')).toBe(false);
+  });
+
+  it('should keep sessions without a TTL in the index forever', async () => {
+    const store = new ValkeyStore({ client: mockClient, disableTTL: true, expiryIndex: { pruneIntervalMs: 0 } });
+
+    await store.set('a', { cookie } as any);
+
+    expect(index.get('a')).toBe(Infinity);
+  });
+
+  it('should delete the index on clear', async () => {
+    const store = new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: 0 } });
+    await store.set('a', { cookie } as any);
+
+    await store.clear();
+
+    expect(mockClient.unlink).toHaveBeenCalledWith(['sess:a']);
+    expect(mockClient.unlink).toHaveBeenCalledWith(['session-index:sess:']);
+    expect(await store.length()).toBe(0);
+  });
+
+  it('should prune expired members in the background', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: 1000 } });
+      index.set('old', Date.now() - 1);
+      index.set('live', Date.now() + 60000);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(Array.from(index.keys())).toEqual(['live']);
+      expect(await store.pruneExpiryIndex()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject an invalid prune interval', () => {
+    expect(() => new ValkeyStore({ client: mockClient, expiryIndex: { pruneIntervalMs: -1 } }))
+      .toThrow('expiryIndex.pruneIntervalMs must be a non-negative number of milliseconds');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for serving sessions from a fallback store while Valkey is unreachable
+ */
+
+import { MemoryStore } from 'express-session';
+import { ConnectionError, RequestError } from '@valkey/valkey-glide';
+import { ValkeyStore } from '../../src';
+
+describe('Fallback Store', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+  let fallback: MemoryStore;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const outage = () => new ConnectionError('connection refused');
+
+  const takeDown = () => {
+    mockClient.get.mockRejectedValue(outage());
+    mockClient.set.mockRejectedValue(outage());
+    mockClient.del.mockRejectedValue(outage());
+    mockClient.ping.mockRejectedValue(outage());
+  };
+
+  const bringUp = () => {
+    mockClient.get.mockImplementation(async (key: string) => data.get(key) ?? null);
+    mockClient.set.mockImplementation(async (key: string, value: any) => { data.set(key, value); return 'OK'; });
+    mockClient.del.mockImplementation(async (keys: string[]) => keys.filter(key => data.delete(key)).length);
+    mockClient.ping.mockResolvedValue('PONG');
+  };
+
+  const fallbackGet = (sid: string) => new Promise(resolve => fallback.get(sid, (_err, session) => resolve(session)));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    data = new Map();
+    fallback = new MemoryStore();
+    mockClient = { get: jest.fn(), set: jest.fn(), del: jest.fn(), ping: jest.fn() };
+    bringUp();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should switch to the fallback store on the first outage error', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, logErrors: false });
+    const degraded = jest.fn();
+    store.on('degraded', degraded);
+    takeDown();
+
+    await store.set('sid', { cookie, step: 1 } as any);
+
+    expect(store.degraded).toBe(true);
+    expect(degraded).toHaveBeenCalledWith(expect.any(ConnectionError));
+    expect(await store.get('sid')).toEqual({ cookie, step: 1 });
+    expect(mockClient.get).not.toHaveBeenCalled();
+
+    await store.destroy('sid');
+    expect(await fallbackGet('sid')).toBeUndefined();
+  });
+
+  it('should keep failing on errors that are not outages', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, logErrors: false });
+    store.on('error', () => {});
+    mockClient.get.mockRejectedValue(new RequestError('WRONGTYPE'));
+
+    await expect(store.get('sid')).rejects.toThrow('WRONGTYPE');
+    expect(store.degraded).toBe(false);
+  });
+
+  it('should return to Valkey once a probe succeeds', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, fallbackProbeMs: 1000, logErrors: false });
+    const recovered = jest.fn();
+    store.on('recovered', recovered);
+    takeDown();
+    await store.get('sid');
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(store.degraded).toBe(true);
+
+    bringUp();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(store.degraded).toBe(false);
+    expect(recovered).toHaveBeenCalledWith({ replayed: 0 });
+
+    await store.set('sid', { cookie } as any);
+    expect(data.has('sess:sid')).toBe(true);
+  });
+
+  it('should replay buffered writes when enabled', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, fallbackReplay: true, logErrors: false });
+    const recovered = jest.fn();
+    store.on('recovered', recovered);
+    data.set('sess:gone', JSON.stringify({ cookie }));
+    takeDown();
+
+    await store.set('sid', { cookie, step: 1 } as any);
+    await store.set('sid', { cookie, step: 2 } as any);
+    await store.destroy('gone');
+
+    bringUp();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(recovered).toHaveBeenCalledWith({ replayed: 2 });
+    expect(JSON.parse(data.get('sess:sid'))).toEqual({ cookie, step: 2 });
+    expect(data.has('sess:gone')).toBe(false);
+  });
+
+  it('should stay degraded when the replay fails', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, fallbackReplay: true, logErrors: false });
+    takeDown();
+    await store.set('sid', { cookie } as any);
+
+    mockClient.ping.mockResolvedValue('PONG');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(store.degraded).toBe(true);
+
+    bringUp();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(store.degraded).toBe(false);
+    expect(data.has('sess:sid')).toBe(true);
+  });
+
+  it('should not serve sessions from an earlier outage', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, logErrors: false });
+    takeDown();
+    await store.set('sid', { cookie, step: 1 } as any);
+
+    bringUp();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(store.degraded).toBe(false);
+    expect(await fallbackGet('sid')).toBeUndefined();
+
+    await store.set('sid', { cookie, step: 2 } as any);
+    await store.destroy('sid');
+
+    takeDown();
+    expect(await store.get('sid')).toBeUndefined();
+    expect(store.degraded).toBe(true);
+  });
+
+  it('should clear replayed writes from the fallback store', async () => {
+    const store = new ValkeyStore({ client: mockClient, fallback, fallbackReplay: true, logErrors: false });
+    takeDown();
+    await store.set('sid', { cookie, step: 1 } as any);
+
+    bringUp();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(JSON.parse(data.get('sess:sid'))).toEqual({ cookie, step: 1 });
+
+    await store.set('sid', { cookie, step: 2 } as any);
+    takeDown();
+    await store.set('other', { cookie } as any);
+
+    expect(await store.get('sid')).toBeUndefined();
+    expect(await store.get('other')).toEqual({ cookie });
+  });
+
+  it('should reject replay without a fallback store', () => {
+    expect(() => new ValkeyStore({ client: mockClient, fallbackReplay: true }))
+      .toThrow('fallbackReplay requires a fallback store');
+  });
+});
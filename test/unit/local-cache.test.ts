@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the local read cache and its pub/sub invalidation
+ */
+
+import { ValkeyStore } from '../../src';
+import { LocalCache } from '../../src/cache';
+
+describe('Local Cache', () => {
+  let data: Map<string, any>;
+  let channels: Map<string, Array<(message: string) => void>>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  // Stores sharing one mock server, each subscribed to invalidations like a separate instance
+  const createStore = (options: any = {}) => {
+    const store = new ValkeyStore({ client: mockClient, cache: {}, ...options });
+    const subscription = store.cacheSubscription();
+    const [channel] = Array.from(subscription.channelsAndPatterns[0]!);
+    const listeners = channels.get(channel) || [];
+    listeners.push((message) => subscription.callback!({ message, channel } as any, undefined));
+    channels.set(channel, listeners);
+    return store;
+  };
+
+  beforeEach(() => {
+    data = new Map();
+    channels = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      unlink: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      expire: jest.fn(async (key: string) => data.has(key)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+      publish: jest.fn(async (message: string, channel: string) => {
+        const listeners = channels.get(channel) || [];
+        listeners.forEach(listener => listener(message));
+        return listeners.length;
+      }),
+    };
+  });
+
+  it('should serve repeated reads from memory', async () => {
+    const store = createStore();
+    data.set('sess:sid', JSON.stringify({ cookie, userId: 'u1' }));
+
+    expect(await store.get('sid')).toEqual({ cookie, userId: 'u1' });
+    expect(await store.get('sid')).toEqual({ cookie, userId: 'u1' });
+
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand out separate copies of a cached session', async () => {
+    const store = createStore();
+    data.set('sess:sid', JSON.stringify({ cookie, cart: [] }));
+
+    const first: any = await store.get('sid');
+    first.cart.push('item');
+
+    expect(await store.get('sid')).toEqual({ cookie, cart: [] });
+  });
+
+  it('should not cache missing sessions', async () => {
+    const store = createStore();
+
+    expect(await store.get('missing')).toBeNull();
+    data.set('sess:missing', JSON.stringify({ cookie }));
+
+    expect(await store.get('missing')).toEqual({ cookie });
+  });
+
+  it('should invalidate other instances on set and destroy', async () => {
+    const a = createStore();
+    const b = createStore();
+
+    await a.set('sid', { cookie, step: 1 } as any);
+    expect(await b.get('sid')).toEqual({ cookie, step: 1 });
+
+    await a.set('sid', { cookie, step: 2 } as any);
+    expect(await b.get('sid')).toEqual({ cookie, step: 2 });
+
+    await a.destroy('sid');
+    expect(await b.get('sid')).toBeNull();
+    expect(mockClient.publish).toHaveBeenCalledWith(expect.stringMatching(/^[0-9a-f]+:sid$/), 'session-invalidation:sess:');
+  });
+
+  it('should ignore its own invalidation messages', async () => {
+    const store = createStore();
+    data.set('sess:other', JSON.stringify({ cookie }));
+    await store.get('other');
+
+    await store.set('sid', { cookie } as any);
+    await store.get('other');
+
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop every cached session on clear', async () => {
+    const a = createStore();
+    const b = createStore();
+    await a.set('sid', { cookie } as any);
+    await b.get('sid');
+
+    await a.clear();
+
+    expect(await b.get('sid')).toBeNull();
+  });
+
+  it('should expire entries after ttlMs', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const store = createStore({ cache: { ttlMs: 1000 } });
+      data.set('sess:sid', JSON.stringify({ cookie, step: 1 }));
+      await store.get('sid');
+
+      data.set('sess:sid', JSON.stringify({ cookie, step: 2 }));
+      jest.setSystemTime(1001);
+
+      expect(await store.get('sid')).toEqual({ cookie, step: 2 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should keep serving writes when publishing fails', async () => {
+    mockClient.publish.mockRejectedValue(new Error('connection lost'));
+    const store = createStore({ logErrors: false });
+
+    await store.set('sid', { cookie } as any);
+
+    expect(await store.get('sid')).toEqual({ cookie });
+  });
+
+  it('should refuse a subscription when the cache is disabled', () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    expect(() => store.cacheSubscription()).toThrow('The local cache is not enabled');
+  });
+
+  it('should reject invalid cache options', () => {
+    expect(() => new ValkeyStore({ client: mockClient, cache: { maxEntries: 0 } }))
+      .toThrow('cache.maxEntries must be a positive integer');
+    expect(() => new ValkeyStore({ client: mockClient, cache: { ttlMs: -1 } }))
+      .toThrow('cache.ttlMs must be a positive number of milliseconds');
+  });
+
+  describe('LocalCache', () => {
+    it('should evict the least recently used entry', () => {
+      const cache = new LocalCache<number>(2, 60000);
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(cache.get('a')).toBe(1);
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.size).toBe(2);
+    });
+
+    it('should discard loads that started before an invalidation', () => {
+      const cache = new LocalCache<number>(10, 60000);
+      const epoch = cache.epoch;
+
+      cache.delete('a');
+      cache.set('a', 1, epoch);
+
+      expect(cache.get('a')).toBeUndefined();
+    });
+  });
+});
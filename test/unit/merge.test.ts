@@ -0,0 +1,146 @@
+/**
+ * Unit tests for merge strategies applied to conflicting session writes
+ */
+
+import { createHash } from 'crypto';
+import { ValkeyStore, SessionConflictError } from '../../src';
+import { resolveMergeStrategy } from '../../src/merge';
+
+describe('Merge strategies', () => {
+  const shallow: any = resolveMergeStrategy('shallow');
+  const deep: any = resolveMergeStrategy('deep');
+  const union: any = resolveMergeStrategy('union-by-id');
+
+  const base: any = { user: { id: 1, name: 'a', theme: 'light' }, cart: [{ id: 1, qty: 1 }], flags: ['x'], visits: 1 };
+
+  it('should apply top-level changes from mine onto theirs', () => {
+    const mine: any = { ...base, visits: 2 };
+    const theirs: any = { ...base, user: { ...base.user, name: 'b' }, promo: 'SAVE10' };
+
+    expect(shallow(base, mine, theirs)).toEqual({ ...theirs, visits: 2 });
+  });
+
+  it('should keep deletions from mine unless theirs changed the property', () => {
+    const { visits, ...mine } = base;
+    expect(shallow(base, mine, { ...base })).not.toHaveProperty('visits');
+    expect(shallow(base, mine, { ...base, visits: 5 })).toHaveProperty('visits', 5);
+  });
+
+  it('should merge nested objects property by property', () => {
+    const mine: any = { ...base, user: { ...base.user, theme: 'dark' } };
+    const theirs: any = { ...base, user: { ...base.user, name: 'b' } };
+
+    expect(shallow(base, mine, theirs).user).toEqual({ id: 1, name: 'a', theme: 'dark' });
+    expect(deep(base, mine, theirs).user).toEqual({ id: 1, name: 'b', theme: 'dark' });
+  });
+
+  it('should union arrays by id', () => {
+    const mine: any = { ...base, cart: [{ id: 1, qty: 3 }, { id: 2, qty: 1 }], flags: ['x', 'y'] };
+    const theirs: any = { ...base, cart: [{ id: 1, qty: 1 }, { id: 3, qty: 1 }], flags: [] };
+
+    const merged: any = union(base, mine, theirs);
+
+    expect(merged.cart).toEqual([{ id: 1, qty: 3 }, { id: 3, qty: 1 }, { id: 2, qty: 1 }]);
+    // 'x' was removed by theirs and not touched by mine
+    expect(merged.flags).toEqual(['y']);
+    expect(deep(base, mine, theirs).cart).toEqual(mine.cart);
+  });
+
+  it('should drop array items removed in mine', () => {
+    const mine: any = { ...base, cart: [] };
+    const theirs: any = { ...base, cart: [...base.cart, { id: 2, qty: 1 }] };
+
+    expect((union(base, mine, theirs) as any).cart).toEqual([{ id: 2, qty: 1 }]);
+  });
+
+  it('should prefer mine for every property without a base', () => {
+    const mine: any = { visits: 2, cart: [{ id: 1 }] };
+    const theirs: any = { visits: 3, cart: [{ id: 2 }], promo: 'SAVE10' };
+
+    expect(union(null, mine, theirs)).toEqual({ visits: 2, cart: [{ id: 2 }, { id: 1 }], promo: 'SAVE10' });
+  });
+
+  it('should reject unknown strategies', () => {
+    expect(() => resolveMergeStrategy('latest' as any)).toThrow('Invalid merge strategy: latest');
+    expect(() => resolveMergeStrategy('toString' as any)).toThrow('Invalid merge strategy: toString');
+  });
+});
+
+describe('Merging conflicting writes', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const sha1 = (value: any) => createHash('sha1').update(value).digest('hex');
+
+  const createStore = (options: any) => {
+    const store = new ValkeyStore({ client: mockClient, logErrors: false, ...options });
+    store.on('error', () => {});
+    return store;
+  };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      invokeScript: jest.fn(async (_script: any, { keys: [key], args: [expected, value] }: any) => {
+        const current = data.get(key);
+        if (expected === '' ? current !== undefined : current === undefined || sha1(current) !== expected) {
+          return 0;
+        }
+        data.set(key, value);
+        return 1;
+      }),
+    };
+  });
+
+  const stored = (sid: string) => JSON.parse(data.get(`sess:${sid}`).toString());
+
+  it('should merge concurrent cart updates without losing items', async () => {
+    const store = createStore({ mergeStrategy: 'union-by-id' });
+    await store.set('sid', { cookie, cart: [] } as any);
+
+    const [first, second]: any[] = await Promise.all([store.get('sid'), store.get('sid')]);
+    first.cart.push({ id: 'a' });
+    second.cart.push({ id: 'b' });
+
+    await store.set('sid', first);
+    await store.set('sid', second);
+
+    expect(store.concurrency).toBe('optimistic');
+    expect(stored('sid').cart).toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+
+  it('should call custom merge functions with the common base', async () => {
+    const merge = jest.fn((base: any, mine: any, theirs: any) => ({ ...theirs, n: theirs.n + mine.n - base.n }));
+    const store = createStore({ mergeStrategy: merge });
+    await store.set('sid', { cookie, n: 0 } as any);
+
+    const [first, second]: any[] = await Promise.all([store.get('sid'), store.get('sid')]);
+
+    await store.set('sid', { ...first, n: 1 });
+    await store.set('sid', { ...second, n: 2 });
+
+    expect(merge).toHaveBeenCalledWith({ cookie, n: 0 }, { cookie, n: 2 }, { cookie, n: 1 });
+    expect(stored('sid').n).toBe(3);
+  });
+
+  it('should not re-create sessions deleted in the meantime', async () => {
+    const store = createStore({ mergeStrategy: 'shallow' });
+    await store.set('sid', { cookie } as any);
+
+    const session: any = await store.get('sid');
+    await store.destroy('sid');
+
+    await expect(store.set('sid', { ...session, n: 1 })).rejects.toThrow(SessionConflictError);
+    expect(data.has('sess:sid')).toBe(false);
+  });
+
+  it('should validate the configuration', () => {
+    expect(() => createStore({ mergeStrategy: 'deep', concurrency: 'none' }))
+      .toThrow('mergeStrategy requires optimistic concurrency');
+    expect(() => createStore({ mergeStrategy: 'deep', onConflict: (mine: any) => mine }))
+      .toThrow('Use either mergeStrategy or onConflict, not both');
+  });
+});
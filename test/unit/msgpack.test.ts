@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the MessagePack codec and binary serializer support
+ */
+
+import { Cookie } from 'express-session';
+import { ValkeyStore, MessagePackSerializer, Serializer } from '../../src';
+import { encode, decode } from '../../src/msgpack';
+
+describe('MessagePack codec', () => {
+  it.each([
+    ['nil', null],
+    ['booleans', [true, false]],
+    ['positive fixint', 127],
+    ['uint8/16/32', [128, 255, 256, 65535, 65536, 4294967295]],
+    ['uint64', Number.MAX_SAFE_INTEGER],
+    ['negative fixint', -32],
+    ['int8/16/32', [-33, -128, -129, -32768, -32769, -2147483648]],
+    ['int64', Number.MIN_SAFE_INTEGER],
+    ['floats', [0.5, -1.25, 3.141592653589793, Infinity]],
+    ['strings', ['', 'a'.repeat(31), 'b'.repeat(32), 'c'.repeat(256), 'd'.repeat(70000), 'héllo ✓']],
+    ['arrays', [Array.from({ length: 15 }, (_, i) => i), Array.from({ length: 16 }, (_, i) => i), Array.from({ length: 70000 }, () => 1)]],
+    ['maps', { small: { a: 1 }, large: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])) }],
+  ])('should round-trip %s', (_name, value) => {
+    expect(decode(encode(value))).toEqual(value);
+  });
+
+  it('should round-trip binary data and dates', () => {
+    const value = {
+      bytes: Buffer.from([0, 1, 2, 255]),
+      when: new Date('2024-05-01T12:34:56.789Z'),
+      before1970: new Date('1960-01-01T00:00:00.250Z'),
+    };
+
+    const decoded = decode(encode(value));
+    expect(Buffer.isBuffer(decoded.bytes)).toBe(true);
+    expect(decoded.bytes.equals(value.bytes)).toBe(true);
+    expect(decoded.when).toEqual(value.when);
+    expect(decoded.before1970).toEqual(value.before1970);
+  });
+
+  it('should keep integers beyond the safe range as bigints', () => {
+    expect(decode(encode(BigInt('18446744073709551615')))).toBe(BigInt('18446744073709551615'));
+    expect(decode(encode(BigInt('-9223372036854775808')))).toBe(BigInt('-9223372036854775808'));
+  });
+
+  it('should mirror JSON for undefined values, functions and toJSON', () => {
+    const value = { kept: 1, skipped: undefined, fn: () => 1, list: [undefined], custom: { toJSON: () => 'custom' } };
+
+    expect(decode(encode(value))).toEqual({ kept: 1, list: [null], custom: 'custom' });
+  });
+
+  it('should encode express-session cookies through toJSON', () => {
+    const cookie = new (Cookie as any)({ maxAge: 60000, httpOnly: true });
+
+    const decoded = decode(encode({ cookie }));
+    expect(decoded.cookie.expires).toBeInstanceOf(Date);
+    expect(decoded.cookie.originalMaxAge).toBe(60000);
+    expect(decoded.cookie.httpOnly).toBe(true);
+    expect(decoded.cookie._expires).toBeUndefined();
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => decode(Buffer.from([0xc1]))).toThrow('Invalid MessagePack type code: 0xc1');
+    expect(() => decode(Buffer.from([0xa5, 0x61]))).toThrow('Unexpected end of MessagePack data');
+    expect(() => decode(Buffer.from([0x01, 0x02]))).toThrow('Unexpected trailing bytes after MessagePack value');
+    expect(() => decode(Buffer.from([0xd4, 0x05, 0x00]))).toThrow('Unsupported MessagePack extension type: 5');
+  });
+});
+
+describe('Binary serializers', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const session = {
+    cookie: { originalMaxAge: 3600000, maxAge: 3600000 },
+    userId: 'user-1',
+    lastLogin: new Date('2024-05-01T12:00:00.000Z'),
+  } as any;
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+    };
+  });
+
+  it('should store MessagePack payloads as raw bytes', async () => {
+    const store = new ValkeyStore({ client: mockClient, serializer: MessagePackSerializer });
+
+    await store.set('sid', session);
+
+    const stored: Buffer = data.get('sess:sid');
+    expect(Buffer.isBuffer(stored)).toBe(true);
+    expect(stored.length).toBeLessThan(JSON.stringify(session).length);
+
+    expect(await store.get('sid')).toEqual(session);
+    expect(await store.all()).toEqual({ sid: session });
+  });
+
+  it('should combine with compression and encryption', async () => {
+    const store = new ValkeyStore({
+      client: mockClient,
+      serializer: MessagePackSerializer,
+      compression: { threshold: 0 },
+      encryption: { keys: { k1: Buffer.alloc(32, 7) }, currentKeyId: 'k1' },
+    });
+
+    await store.set('sid', session);
+
+    expect(await store.get('sid')).toEqual(session);
+  });
+
+  it('should pass Buffers to custom binary serializers', async () => {
+    const parse = jest.fn((buffer: Buffer) => JSON.parse(buffer.toString('utf8')));
+    const store = new ValkeyStore({
+      client: mockClient,
+      serializer: { binary: true, stringify: (obj: any) => Buffer.from(JSON.stringify(obj)), parse },
+    });
+
+    await store.set('sid', { cookie: session.cookie, userId: 'user-1' } as any);
+    await store.get('sid');
+
+    expect(Buffer.isBuffer(parse.mock.calls[0][0])).toBe(true);
+  });
+
+  it('should keep passing strings to text serializers', async () => {
+    const parse = jest.fn((str: string) => JSON.parse(str));
+    const store = new ValkeyStore({ client: mockClient, serializer: { stringify: JSON.stringify, parse } });
+
+    data.set('sess:sid', Buffer.from(JSON.stringify({ userId: 'user-1' })));
+    await store.get('sid');
+
+    expect(parse).toHaveBeenCalledWith('{"userId":"user-1"}');
+  });
+
+  it('should accept classes implementing the Serializer interface', async () => {
+    class UpperSerializer implements Serializer {
+      stringify(obj: any): string {
+        return JSON.stringify(obj).toUpperCase();
+      }
+
+      parse(str: string): any {
+        return JSON.parse(str);
+      }
+    }
+    const store = new ValkeyStore({ client: mockClient, serializer: new UpperSerializer() });
+
+    await store.set('sid', { userId: 'user-1' } as any);
+
+    expect(data.get('sess:sid')).toBe('{"USERID":"USER-1"}');
+    expect(await store.get('sid')).toEqual({ USERID: 'USER-1' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for optimistic concurrency control
+ */
+
+import { createHash } from 'crypto';
+import { ValkeyStore, SessionConflictError } from '../../src';
+
+describe('Optimistic Concurrency', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const sha1 = (value: any) => createHash('sha1').update(value).digest('hex');
+
+  const createStore = (options: any = {}) => {
+    const store = new ValkeyStore({ client: mockClient, concurrency: 'optimistic', logErrors: false, ...options });
+    store.on('error', () => {});
+    return store;
+  };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      // Mirrors the compare-and-set script
+      invokeScript: jest.fn(async (_script: any, { keys: [key], args: [expected, value] }: any) => {
+        const current = data.get(key);
+        if (expected === '' ? current !== undefined : current === undefined || sha1(current) !== expected) {
+          return 0;
+        }
+        data.set(key, value);
+        return 1;
+      }),
+    };
+  });
+
+  const stored = (sid: string) => JSON.parse(data.get(`sess:${sid}`).toString());
+
+  it('should create new sessions and never persist the version', async () => {
+    const store = createStore();
+    const session: any = { cookie, n: 1 };
+
+    await store.set('sid', session);
+
+    expect(stored('sid')).toEqual({ cookie, n: 1 });
+    expect(session.__version).toBe(sha1(data.get('sess:sid')));
+  });
+
+  it('should commit writes based on the latest version', async () => {
+    const store = createStore();
+    await store.set('sid', { cookie, n: 1 } as any);
+
+    const session: any = await store.get('sid');
+    session.n = 2;
+    await store.set('sid', session);
+
+    // The same object can be saved again
+    session.n = 3;
+    await store.set('sid', session);
+
+    expect(stored('sid').n).toBe(3);
+  });
+
+  it('should reject a write based on a stale read', async () => {
+    const store = createStore();
+    await store.set('sid', { cookie, n: 0 } as any);
+
+    const first: any = await store.get('sid');
+    const second: any = await store.get('sid');
+
+    await store.set('sid', { ...first, fromA: true });
+    const error = await store.set('sid', { ...second, fromB: true }).catch(err => err);
+
+    expect(error).toBeInstanceOf(SessionConflictError);
+    expect(error.sid).toBe('sid');
+    expect(stored('sid')).toEqual({ cookie, n: 0, fromA: true });
+  });
+
+  it('should refuse to overwrite an existing session without a version', async () => {
+    const store = createStore();
+    await store.set('sid', { cookie, n: 1 } as any);
+
+    await expect(store.set('sid', { cookie, n: 2 } as any)).rejects.toThrow('Session sid was modified concurrently');
+  });
+
+  it('should pass conflicts through the callback', async () => {
+    const store = createStore();
+    await store.set('sid', { cookie } as any);
+
+    const error = await new Promise(resolve => store.set('sid', { cookie } as any, resolve));
+
+    expect(error).toBeInstanceOf(SessionConflictError);
+  });
+
+  it('should save the result of onConflict against the current version', async () => {
+    const onConflict = jest.fn((mine: any, theirs: any) => ({ ...theirs, ...mine, n: theirs.n + mine.n }));
+    const store = createStore({ onConflict });
+    await store.set('sid', { cookie, n: 0 } as any);
+
+    const first: any = await store.get('sid');
+    const second: any = await store.get('sid');
+
+    await store.set('sid', { ...first, n: 1, fromA: true });
+    await store.set('sid', { ...second, n: 2, fromB: true });
+
+    expect(onConflict).toHaveBeenCalledWith({ cookie, n: 2, fromB: true }, { cookie, n: 1, fromA: true }, 'sid');
+    expect(stored('sid')).toEqual({ cookie, n: 3, fromA: true, fromB: true });
+  });
+
+  it('should give up when conflicts keep happening', async () => {
+    const store = createStore({ onConflict: (mine: any) => mine });
+    await store.set('sid', { cookie } as any);
+    mockClient.invokeScript.mockResolvedValue(0);
+
+    await expect(store.set('sid', { cookie } as any)).rejects.toThrow(SessionConflictError);
+    expect(mockClient.invokeScript).toHaveBeenCalledTimes(5);
+  });
+
+  it('should leave regular writes alone when disabled', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await store.set('sid', { cookie } as any);
+    const session: any = await store.get('sid');
+
+    expect(mockClient.invokeScript).not.toHaveBeenCalled();
+    expect(session.__version).toBeUndefined();
+  });
+
+  it('should reject unsupported configurations', () => {
+    expect(() => createStore({ storage: 'hash' })).toThrow('Optimistic concurrency is only supported with string storage');
+    expect(() => createStore({ concurrency: 'pessimistic' })).toThrow('Invalid concurrency mode: pessimistic');
+  });
+});
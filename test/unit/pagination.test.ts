@@ -0,0 +1,165 @@
+/**
+ * Unit tests for cursor-based session pagination and streaming iteration
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Listing sessions', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  // Standalone SCAN stand-in: the cursor is an offset into the sorted key list
+  const scanStep = 3;
+
+  beforeEach(() => {
+    data = new Map();
+    for (let i = 0; i < 10; i++) {
+      data.set(`sess:s${i}`, JSON.stringify({ cookie, n: i }));
+    }
+
+    mockClient = {
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      scan: jest.fn(async (cursor: string) => {
+        const keys = Array.from(data.keys()).sort();
+        const offset = Number(cursor);
+        const next = offset + scanStep >= keys.length ? '0' : String(offset + scanStep);
+        return [next, keys.slice(offset, offset + scanStep)];
+      }),
+    };
+  });
+
+  const collect = async (store: ValkeyStore, limit: number) => {
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: any = await store.page({ cursor, limit });
+      pages.push(Object.keys(page.sessions));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return pages;
+  };
+
+  it('should return pages of at most limit sessions until the scan completes', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const pages = await collect(store, 4);
+
+    expect(pages.map(page => page.length)).toEqual([4, 4, 2]);
+    expect(pages.flat().sort()).toEqual(Array.from(data.keys()).map(key => key.replace('sess:', '')).sort());
+  });
+
+  it('should carry keys scanned beyond the limit in the cursor', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const first = await store.page({ limit: 2 });
+    expect(Object.keys(first.sessions)).toEqual(['s0', 's1']);
+    expect(mockClient.scan).toHaveBeenCalledTimes(1);
+
+    const second = await store.page({ cursor: first.nextCursor, limit: 1 });
+    expect(Object.keys(second.sessions)).toEqual(['s2']);
+    expect(mockClient.scan).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return a URL-safe cursor and null at the end', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const first = await store.page({ limit: 5 });
+    expect(first.nextCursor).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const last = await store.page({ limit: 100 });
+    expect(Object.keys(last.sessions)).toHaveLength(10);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('should skip sessions that disappear between scan and read', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    mockClient.mget.mockImplementationOnce(async (keys: string[]) => keys.map((key, i) => i === 0 ? null : data.get(key)));
+
+    const page = await store.page({ limit: 3 });
+
+    expect(Object.keys(page.sessions)).toEqual(['s1', 's2']);
+  });
+
+  it('should support callbacks', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const page: any = await new Promise((resolve, reject) => {
+      store.page({ limit: 3 }, (err, result) => err ? reject(err) : resolve(result));
+    });
+
+    expect(Object.keys(page.sessions)).toHaveLength(3);
+  });
+
+  it('should reject malformed cursors and limits', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await expect(store.page({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid session cursor');
+    await expect(store.page({ cursor: Buffer.from(JSON.stringify({ c: 'x', p: [] })).toString('base64url') }))
+      .rejects.toThrow('Invalid session cursor');
+    await expect(store.page({ limit: 0 })).rejects.toThrow('Page limit must be a positive integer');
+  });
+
+  it('should only read session keys named in a cursor', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const cursor = Buffer.from(JSON.stringify({ c: '0', p: ['s1'] })).toString('base64url');
+
+    await store.page({ cursor, limit: 1 });
+
+    expect(mockClient.mget).toHaveBeenCalledWith(['sess:s1'], expect.anything());
+  });
+
+  describe('iterate', () => {
+    it('should yield every session as [sid, session] pairs', async () => {
+      const store = new ValkeyStore({ client: mockClient });
+      const entries: [string, any][] = [];
+
+      for await (const entry of store.iterate()) {
+        entries.push(entry);
+      }
+
+      expect(entries).toHaveLength(10);
+      expect(entries).toContainEqual(['s3', { cookie, n: 3 }]);
+    });
+
+    it('should be usable directly with for await', async () => {
+      const store = new ValkeyStore({ client: mockClient });
+      const sids: string[] = [];
+
+      for await (const [sid] of store) {
+        sids.push(sid);
+      }
+
+      expect(sids.sort()).toEqual(Array.from(data.keys()).map(key => key.replace('sess:', '')).sort());
+    });
+
+    it('should only scan ahead as the consumer pulls', async () => {
+      const store = new ValkeyStore({ client: mockClient });
+      const iterator = store.iterate();
+
+      await iterator.next();
+      expect(mockClient.scan).toHaveBeenCalledTimes(1);
+      expect(mockClient.mget).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      await iterator.next();
+      expect(mockClient.scan).toHaveBeenCalledTimes(1);
+
+      await iterator.next();
+      expect(mockClient.scan).toHaveBeenCalledTimes(2);
+
+      await iterator.return(undefined);
+      expect(mockClient.scan).toHaveBeenCalledTimes(2);
+    });
+
+    it('should surface scan errors to the consumer', async () => {
+      const store = new ValkeyStore({ client: mockClient });
+      mockClient.scan.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(store.iterate().next()).rejects.toThrow('connection lost');
+    });
+  });
+});
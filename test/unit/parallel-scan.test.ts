@@ -0,0 +1,93 @@
+/**
+ * Unit tests for scanning cluster primaries in parallel
+ */
+
+import { GlideClusterClient } from '@valkey/valkey-glide';
+import { ValkeyStore } from '../../src';
+
+describe('Parallel Cluster Scan', () => {
+  let nodes: Record<string, string[]>;
+  let mockClient: any;
+
+  const topology = [
+    'a 10.0.0.1:7000@17000 myself,master - 0 0 1 connected 0-8191',
+    'b 10.0.0.2:7000@17000 master - 0 0 2 connected 8192-16383',
+    'c 10.0.0.3:7000@17000 slave a 0 0 1 connected',
+  ].join('\n');
+
+  beforeEach(() => {
+    nodes = {
+      '10.0.0.1': ['sess:a1', 'sess:a2', 'sess:a3'],
+      '10.0.0.2': ['sess:b1'],
+    };
+
+    mockClient = Object.assign(Object.create(GlideClusterClient.prototype), {
+      // Each node returns two keys per SCAN call, with the offset as cursor
+      customCommand: jest.fn(async (args: string[], options: any) => {
+        if (args[0] === 'CLUSTER') {
+          return topology;
+        }
+
+        const keys = nodes[options.route.host];
+        const offset = Number(args[1]);
+        const next = offset + 2 < keys.length ? String(offset + 2) : '0';
+        return [next, keys.slice(offset, offset + 2)];
+      }),
+      scan: jest.fn(),
+      unlink: jest.fn(async (keys: string[]) => keys.length),
+    });
+  });
+
+  it('should scan each primary with its own cursor', async () => {
+    const store = new ValkeyStore({ client: mockClient, scanParallelism: 2 });
+
+    expect((await store.ids()).sort()).toEqual(['a1', 'a2', 'a3', 'b1']);
+    expect(await store.length()).toBe(4);
+    expect(mockClient.scan).not.toHaveBeenCalled();
+
+    const routed = mockClient.customCommand.mock.calls
+      .filter(([args]: [string[]]) => args[0] === 'SCAN')
+      .map(([, options]: [string[], any]) => options.route.host);
+    expect(new Set(routed)).toEqual(new Set(['10.0.0.1', '10.0.0.2']));
+  });
+
+  it('should report progress for every node', async () => {
+    const store = new ValkeyStore({ client: mockClient, scanParallelism: 1 });
+    const progress: any[] = [];
+    store.on('scanProgress', (event) => progress.push(event));
+
+    await store.clear();
+
+    expect(progress).toEqual([
+      { node: '10.0.0.1:7000', found: 2, done: false },
+      { node: '10.0.0.1:7000', found: 3, done: true },
+      { node: '10.0.0.2:7000', found: 1, done: true },
+    ]);
+    const unlinked = mockClient.unlink.mock.calls.flatMap(([keys]: [string[]]) => keys);
+    expect(unlinked.sort()).toEqual(['sess:a1', 'sess:a2', 'sess:a3', 'sess:b1']);
+  });
+
+  it('should limit how many nodes are scanned at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const scan = mockClient.customCommand.getMockImplementation();
+    mockClient.customCommand.mockImplementation(async (args: string[], options: any) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+      return scan(args, options);
+    });
+
+    await new ValkeyStore({ client: mockClient, scanParallelism: 1 }).ids();
+    expect(peak).toBe(1);
+
+    peak = 0;
+    await new ValkeyStore({ client: mockClient, scanParallelism: 4 }).ids();
+    expect(peak).toBe(2);
+  });
+
+  it('should reject an invalid scanParallelism', () => {
+    expect(() => new ValkeyStore({ client: mockClient, scanParallelism: 0 }))
+      .toThrow('scanParallelism must be a positive integer');
+  });
+});
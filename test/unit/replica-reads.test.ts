@@ -0,0 +1,136 @@
+/**
+ * Unit tests for routing reads through a replica client with a read-your-writes window
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Replica Reads', () => {
+  let primary: Map<string, any>;
+  let replica: Map<string, any>;
+  let index: Map<string, number>;
+  let mockClient: any;
+  let readClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  const nodeClient = (data: Map<string, any>) => ({
+    get: jest.fn(async (key: string) => data.get(key) ?? null),
+    mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+    scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+    zcount: jest.fn(async () => index.size),
+    zrange: jest.fn(async () => Array.from(index.keys())),
+  });
+
+  beforeEach(() => {
+    primary = new Map();
+    replica = new Map();
+    index = new Map();
+    mockClient = {
+      ...nodeClient(primary),
+      set: jest.fn(async (key: string, value: any) => { primary.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => primary.delete(key)).length),
+      zadd: jest.fn(async (_key: string, members: Record<string, number>) => {
+        Object.entries(members).forEach(([sid, score]) => index.set(sid, score));
+        return 1;
+      }),
+      zrem: jest.fn(async (_key: string, sids: string[]) => sids.filter(sid => index.delete(sid)).length),
+    };
+    readClient = nodeClient(replica);
+  });
+
+  it('should read sessions from the read client', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica' });
+    replica.set('sess:a', JSON.stringify({ cookie, n: 1 }));
+
+    expect(await store.get('a')).toEqual({ cookie, n: 1 });
+    expect(await store.all()).toEqual({ a: { cookie, n: 1 } });
+    expect(await store.ids()).toEqual(['a']);
+    expect(await store.length()).toBe(1);
+
+    expect(mockClient.get).not.toHaveBeenCalled();
+    expect(mockClient.mget).not.toHaveBeenCalled();
+    expect(mockClient.scan).not.toHaveBeenCalled();
+  });
+
+  it('should use the read client for the expiry index', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'AZAffinity', expiryIndex: { pruneIntervalMs: 0 } });
+    await store.set('a', { cookie } as any);
+
+    expect(await store.length()).toBe(1);
+    expect(await store.ids()).toEqual(['a']);
+    expect(readClient.zcount).toHaveBeenCalledTimes(1);
+    expect(readClient.zrange).toHaveBeenCalledTimes(1);
+    expect(mockClient.zcount).not.toHaveBeenCalled();
+  });
+
+  it('should read a session from the primary right after writing it', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica', readYourWritesMs: 1000 });
+      replica.set('sess:a', JSON.stringify({ cookie, n: 1 }));
+
+      await store.set('a', { cookie, n: 2 } as any);
+      expect(await store.get('a')).toEqual({ cookie, n: 2 });
+      expect(await store.get('b')).toBeNull();
+      expect(readClient.get).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(await store.get('a')).toEqual({ cookie, n: 1 });
+      // 'a' inside the window, and 'b' after the replica missed it
+      expect(mockClient.get).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should not read a destroyed session back from a lagging replica', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica' });
+    replica.set('sess:a', JSON.stringify({ cookie }));
+
+    await store.destroy('a');
+
+    expect(await store.get('a')).toBeNull();
+    expect(readClient.get).not.toHaveBeenCalled();
+  });
+
+  it('should check the primary when the replica does not have the session yet', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica' });
+    // Written moments ago by another instance, not replicated yet
+    primary.set('sess:a', JSON.stringify({ cookie, n: 1 }));
+
+    expect(await store.get('a')).toEqual({ cookie, n: 1 });
+    expect(await store.get('missing')).toBeNull();
+    expect(readClient.get).toHaveBeenCalledTimes(2);
+    expect(mockClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read written sessions from the replica when readYourWritesMs is 0', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica', readYourWritesMs: 0 });
+    replica.set('sess:a', JSON.stringify({ cookie, n: 1 }));
+
+    await store.set('a', { cookie, n: 2 } as any);
+
+    expect(await store.get('a')).toEqual({ cookie, n: 1 });
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it('should ignore the read client when reading from the primary', async () => {
+    const store = new ValkeyStore({ client: mockClient, readClient, readFrom: 'primary' });
+
+    await store.get('a');
+    await store.length();
+
+    expect(store.readClient).toBeUndefined();
+    expect(readClient.get).not.toHaveBeenCalled();
+    expect(readClient.scan).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid read routing options', () => {
+    expect(() => new ValkeyStore({ client: mockClient, readFrom: 'preferReplica' }))
+      .toThrow('readFrom requires a readClient created with the same readFrom');
+    expect(() => new ValkeyStore({ client: mockClient, readClient, readFrom: 'anyNode' as any }))
+      .toThrow('Invalid readFrom strategy: anyNode');
+    expect(() => new ValkeyStore({ client: mockClient, readClient, readFrom: 'preferReplica', readYourWritesMs: -1 }))
+      .toThrow('readYourWritesMs must be a non-negative number of milliseconds');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for retrying store operations after transient errors
+ */
+
+import { ConnectionError, TimeoutError, RequestError } from '@valkey/valkey-glide';
+import { ValkeyStore, isTransientError } from '../../src';
+import { resolveRetryOptions, retryDelay } from '../../src/retry';
+
+describe('Retry Policy', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+  const noDelay = { baseDelayMs: 0, maxDelayMs: 0 };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      expire: jest.fn(async (key: string) => data.has(key)),
+    };
+  });
+
+  it('should retry transient errors and emit retry events', async () => {
+    const store = new ValkeyStore({ client: mockClient, retry: noDelay });
+    const events: any[] = [];
+    store.on('retry', (event) => events.push(event));
+
+    const timeout = new TimeoutError('timed out');
+    mockClient.set.mockRejectedValueOnce(timeout);
+    mockClient.get.mockRejectedValueOnce(new ConnectionError('connection reset'));
+
+    await store.set('sid', { cookie } as any);
+    expect(await store.get('sid')).toEqual({ cookie });
+
+    expect(events).toEqual([
+      { operation: 'set', attempt: 1, delayMs: 0, error: timeout },
+      expect.objectContaining({ operation: 'get', attempt: 1 }),
+    ]);
+  });
+
+  it('should retry touch and destroy', async () => {
+    const store = new ValkeyStore({ client: mockClient, retry: noDelay });
+    data.set('sess:sid', JSON.stringify({ cookie }));
+    mockClient.expire.mockRejectedValueOnce(new TimeoutError('timed out'));
+    mockClient.del.mockRejectedValueOnce(new TimeoutError('timed out'));
+
+    await store.touch('sid', { cookie } as any);
+    await store.destroy('sid');
+
+    expect(mockClient.expire).toHaveBeenCalledTimes(2);
+    expect(data.has('sess:sid')).toBe(false);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const store = new ValkeyStore({ client: mockClient, retry: { ...noDelay, maxAttempts: 3 }, logErrors: false });
+    store.on('error', () => {});
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+
+    await expect(store.get('sid')).rejects.toThrow('timed out');
+    expect(mockClient.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors that are not transient', async () => {
+    const store = new ValkeyStore({ client: mockClient, retry: noDelay, logErrors: false });
+    store.on('error', () => {});
+    mockClient.get.mockRejectedValue(new RequestError('WRONGTYPE'));
+
+    await expect(store.get('sid')).rejects.toThrow('WRONGTYPE');
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom isRetryable predicate', async () => {
+    const isRetryable = jest.fn((error: any) => isTransientError(error) || /LOADING/.test(error.message));
+    const store = new ValkeyStore({ client: mockClient, retry: { ...noDelay, isRetryable } });
+    mockClient.get.mockRejectedValueOnce(new RequestError('LOADING Valkey is loading the dataset in memory'));
+
+    expect(await store.get('sid')).toBeNull();
+    expect(isRetryable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry without a retry option', async () => {
+    const store = new ValkeyStore({ client: mockClient, logErrors: false });
+    store.on('error', () => {});
+    mockClient.get.mockRejectedValue(new TimeoutError('timed out'));
+
+    await expect(store.get('sid')).rejects.toThrow('timed out');
+    expect(mockClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially up to maxDelayMs with jitter', () => {
+    const options = resolveRetryOptions({ baseDelayMs: 100, maxDelayMs: 500, jitter: 0 });
+    expect([1, 2, 3, 4].map(attempt => retryDelay(attempt, options))).toEqual([100, 200, 400, 500]);
+
+    const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+    try {
+      expect(retryDelay(2, resolveRetryOptions({ baseDelayMs: 100, jitter: 0.5 }))).toBe(100);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('should reject invalid retry options', () => {
+    expect(() => resolveRetryOptions({ maxAttempts: 0 })).toThrow('retry.maxAttempts must be a positive integer');
+    expect(() => resolveRetryOptions({ baseDelayMs: 100, maxDelayMs: 10 }))
+      .toThrow('retry delays must be non-negative, with maxDelayMs at least baseDelayMs');
+    expect(() => resolveRetryOptions({ jitter: 2 })).toThrow('retry.jitter must be between 0 and 1');
+  });
+});
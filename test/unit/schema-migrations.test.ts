@@ -0,0 +1,132 @@
+/**
+ * Unit tests for session schema versioning and migrations
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Schema Migrations', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  const migrations = {
+    1: (session: any) => {
+      const { userId, ...rest } = session;
+      return { ...rest, user: { id: userId } };
+    },
+    2: async (session: any) => ({ ...session, roles: session.roles || ['member'] }),
+  };
+
+  const stored = (sid: string) => JSON.parse(data.get(`sess:${sid}`));
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      scan: jest.fn(async () => ['0', Array.from(data.keys())]),
+    };
+  });
+
+  it('should not stamp sessions when versioning is not configured', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+
+    expect(store.schemaVersion).toBeUndefined();
+    expect(stored('sid').__schemaVersion).toBeUndefined();
+  });
+
+  it('should stamp the schema version on write and strip it on read', async () => {
+    const store = new ValkeyStore({ client: mockClient, migrations });
+
+    await store.set('sid', { cookie, user: { id: 'u1' }, roles: ['admin'] } as any);
+
+    expect(store.schemaVersion).toBe(2);
+    expect(stored('sid').__schemaVersion).toBe(2);
+    expect(await store.get('sid')).toEqual({ cookie, user: { id: 'u1' }, roles: ['admin'] });
+  });
+
+  it('should upgrade unversioned sessions through every migration', async () => {
+    data.set('sess:legacy', JSON.stringify({ cookie, userId: 'u1' }));
+    const store = new ValkeyStore({ client: mockClient, migrations });
+
+    expect(await store.get('legacy')).toEqual({ cookie, user: { id: 'u1' }, roles: ['member'] });
+
+    // Without write-back the stored value is left alone until the next save
+    expect(mockClient.set).not.toHaveBeenCalled();
+  });
+
+  it('should only apply migrations above the stored version', async () => {
+    data.set('sess:v1', JSON.stringify({ cookie, user: { id: 'u1' }, __schemaVersion: 1 }));
+    const migration1 = jest.fn(migrations[1]);
+    const store = new ValkeyStore({ client: mockClient, migrations: { ...migrations, 1: migration1 } });
+
+    expect(await store.get('v1')).toEqual({ cookie, user: { id: 'u1' }, roles: ['member'] });
+    expect(migration1).not.toHaveBeenCalled();
+  });
+
+  it('should skip versions without a migration', async () => {
+    data.set('sess:v0', JSON.stringify({ cookie, name: 'a' }));
+    const store = new ValkeyStore({ client: mockClient, schemaVersion: 3, migrations: { 3: (s: any) => ({ ...s, name: s.name.toUpperCase() }) } });
+
+    expect(await store.get('v0')).toEqual({ cookie, name: 'A' });
+  });
+
+  it('should leave sessions from a newer schema untouched', async () => {
+    data.set('sess:future', JSON.stringify({ cookie, shape: 'new', __schemaVersion: 5 }));
+    const store = new ValkeyStore({ client: mockClient, migrations });
+
+    expect(await store.get('future')).toEqual({ cookie, shape: 'new', __schemaVersion: 5 });
+  });
+
+  it('should not downgrade sessions from a newer schema when saving them', async () => {
+    const v2 = new ValkeyStore({ client: mockClient, migrations });
+    const v1 = new ValkeyStore({ client: mockClient, migrations: { 1: migrations[1] } });
+
+    await v2.set('sid', { cookie, user: { id: 7 } } as any);
+    const session = await v1.get('sid');
+    await v1.set('sid', { ...session, seen: true } as any);
+
+    expect(stored('sid').__schemaVersion).toBe(2);
+    expect(await v2.get('sid')).toEqual({ cookie, user: { id: 7 }, seen: true });
+  });
+
+  it('should write upgraded sessions back when enabled', async () => {
+    data.set('sess:legacy', JSON.stringify({ cookie, userId: 'u1' }));
+    const store = new ValkeyStore({ client: mockClient, migrations, writeBackMigrations: true });
+
+    await store.get('legacy');
+
+    expect(mockClient.set).toHaveBeenCalledTimes(1);
+    expect(stored('legacy')).toEqual({ cookie, user: { id: 'u1' }, roles: ['member'], __schemaVersion: 2 });
+  });
+
+  it('should still return the upgraded session when write-back fails', async () => {
+    data.set('sess:legacy', JSON.stringify({ cookie, userId: 'u1' }));
+    mockClient.set.mockRejectedValue(new Error('read-only replica'));
+    const store = new ValkeyStore({ client: mockClient, migrations, writeBackMigrations: true, logErrors: false });
+
+    expect(await store.get('legacy')).toEqual({ cookie, user: { id: 'u1' }, roles: ['member'] });
+  });
+
+  it('should upgrade sessions returned by all()', async () => {
+    data.set('sess:a', JSON.stringify({ cookie, userId: 'a' }));
+    data.set('sess:b', JSON.stringify({ cookie, user: { id: 'b' }, roles: [], __schemaVersion: 2 }));
+    const store = new ValkeyStore({ client: mockClient, migrations });
+
+    expect(await store.all()).toEqual({
+      a: { cookie, user: { id: 'a' }, roles: ['member'] },
+      b: { cookie, user: { id: 'b' }, roles: [] },
+    });
+  });
+
+  it('should reject inconsistent configuration', () => {
+    expect(() => new ValkeyStore({ client: mockClient, migrations: { 0: (s: any) => s } }))
+      .toThrow('Migration versions must be positive integers');
+    expect(() => new ValkeyStore({ client: mockClient, schemaVersion: 1, migrations }))
+      .toThrow('Migration registered for a version above schemaVersion 1');
+  });
+});
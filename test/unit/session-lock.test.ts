@@ -0,0 +1,109 @@
+/**
+ * Unit tests for per-session distributed locks
+ */
+
+import { ValkeyStore, SessionLockError } from '../../src';
+
+describe('Session Locks', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      set: jest.fn(async (key: string, value: any, options: any) => {
+        if (options?.conditionalSet === 'onlyIfDoesNotExist' && data.has(key)) {
+          return null;
+        }
+        data.set(key, value);
+        return 'OK';
+      }),
+      // Mirrors the compare-and-delete release script
+      invokeScript: jest.fn(async (_script: any, { keys: [key], args: [token] }: any) => {
+        if (data.get(key) !== token) {
+          return 0;
+        }
+        data.delete(key);
+        return 1;
+      }),
+    };
+  });
+
+  it('should hold the lock while fn runs and release it afterwards', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    const result = await store.withLock('sid', async () => {
+      expect(data.has('session-lock:{sess:sid}')).toBe(true);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(data.has('session-lock:{sess:sid}')).toBe(false);
+    expect(mockClient.set.mock.calls[0][2]).toEqual({
+      conditionalSet: 'onlyIfDoesNotExist',
+      expiry: { type: 'PX', count: 10000 },
+    });
+  });
+
+  it('should release the lock when fn throws', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await expect(store.withLock('sid', () => { throw new Error('payment failed'); })).rejects.toThrow('payment failed');
+
+    expect(data.has('session-lock:{sess:sid}')).toBe(false);
+  });
+
+  it('should serialize concurrent critical sections', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    const events: string[] = [];
+
+    const section = (name: string) => store.withLock('sid', async () => {
+      events.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      events.push(`${name}:end`);
+    }, { waitMs: 1000 });
+
+    await Promise.all([section('a'), section('b')]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  it('should fail with SessionLockError when the lock is not released in time', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    data.set('session-lock:{sess:sid}', 'someone-else');
+
+    const error = await store.withLock('sid', () => 'never', { waitMs: 30 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(SessionLockError);
+    expect(error.sid).toBe('sid');
+    expect(data.get('session-lock:{sess:sid}')).toBe('someone-else');
+  });
+
+  it('should not release a lock that expired and was taken over', async () => {
+    const store = new ValkeyStore({ client: mockClient, logErrors: false });
+
+    await store.withLock('sid', () => {
+      data.set('session-lock:{sess:sid}', 'new-holder');
+    });
+
+    expect(data.get('session-lock:{sess:sid}')).toBe('new-holder');
+  });
+
+  it('should keep lock keys on the session\'s cluster slot', async () => {
+    const store = new ValkeyStore({ client: mockClient, prefix: '{app}:sess:' });
+
+    await store.withLock('sid', () => {
+      expect(Array.from(data.keys())).toEqual(['session-lock:{app}:sess:sid']);
+    });
+  });
+
+  it('should validate the session ID and options', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await expect(store.withLock('', () => 1)).rejects.toThrow('Session ID must be a non-empty value');
+    await expect(store.withLock('sid', () => 1, { ttlMs: 0 })).rejects.toThrow('Lock ttlMs must be a positive integer');
+    await expect(store.withLock('sid', () => 1, { waitMs: NaN })).rejects.toThrow('Lock waitMs must be a non-negative number of milliseconds');
+    await expect(store.withLock('sid', () => 1, { waitMs: -1 })).rejects.toThrow('Lock waitMs must be a non-negative number of milliseconds');
+    expect(mockClient.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for touch throttling (touchAfter)
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('Touch Throttling', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      mget: jest.fn(async (keys: string[]) => keys.map(key => data.get(key) ?? null)),
+      set: jest.fn(async (key: string, value: any, options: any) => {
+        if (options?.conditionalSet === 'onlyIfExists' && !data.has(key)) {
+          return null;
+        }
+        data.set(key, value);
+        return 'OK';
+      }),
+      expire: jest.fn(async (key: string) => data.has(key)),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      // Emulates the touch script: refresh the TTL and record the stamp next to the session
+      invokeScript: jest.fn(async (_script: any, { keys, args }: any) => {
+        if (!data.has(keys[0])) {
+          return 0;
+        }
+        data.set(keys[1], args[1]);
+        return 1;
+      }),
+    };
+  });
+
+  const stored = (sid: string) => JSON.parse(data.get(`sess:${sid}`));
+
+  it('should stamp saved sessions with the last touch time', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    const session: any = { cookie, n: 1 };
+
+    const before = Date.now();
+    await store.set('sid', session);
+
+    expect(stored('sid').__lastTouch).toBeGreaterThanOrEqual(before);
+    expect(session.__lastTouch).toBe(stored('sid').__lastTouch);
+    expect((await store.get('sid') as any).__lastTouch).toBe(session.__lastTouch);
+  });
+
+  it('should skip touches within touchAfter seconds', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    await store.set('sid', { cookie } as any);
+    mockClient.set.mockClear();
+
+    const session: any = await store.get('sid');
+    await store.touch('sid', session);
+    await store.touch('sid', session);
+
+    expect(mockClient.set).not.toHaveBeenCalled();
+    expect(mockClient.invokeScript).not.toHaveBeenCalled();
+    expect(store.skippedTouches).toBe(2);
+  });
+
+  it('should refresh the TTL and the stamp once touchAfter has passed', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    await store.set('sid', { cookie, n: 1 } as any);
+
+    const saved = stored('sid');
+    mockClient.set.mockClear();
+
+    const session: any = await store.get('sid');
+    session.__lastTouch -= 61000;
+    const before = Date.now();
+
+    await store.touch('sid', session);
+
+    expect(mockClient.set).not.toHaveBeenCalled();
+    expect(mockClient.invokeScript).toHaveBeenCalledWith(expect.anything(), {
+      keys: ['sess:sid', 'session-touch:{sess:sid}'],
+      args: ['3600', String(session.__lastTouch)],
+    });
+    expect(stored('sid')).toEqual(saved);
+    expect(session.__lastTouch).toBeGreaterThanOrEqual(before);
+    expect(store.skippedTouches).toBe(0);
+
+    // The next request reads the new stamp and skips its touch
+    await store.touch('sid', await store.get('sid') as any);
+    expect(store.skippedTouches).toBe(1);
+  });
+
+  it('should not overwrite changes saved by another server when touching', async () => {
+    const a = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    const b = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    await a.set('sid', { cookie, cart: [] } as any);
+
+    const stale: any = await a.get('sid');
+    const fresh: any = await b.get('sid');
+    await b.set('sid', { ...fresh, cart: ['book'] });
+
+    stale.__lastTouch -= 61000;
+    await a.touch('sid', stale);
+
+    expect(stored('sid').cart).toEqual(['book']);
+    expect((await a.get('sid') as any).cart).toEqual(['book']);
+  });
+
+  it('should never wait longer than half the TTL', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 3600 });
+    const shortCookie = { originalMaxAge: 60000, maxAge: 60000 };
+    await store.set('sid', { cookie: shortCookie } as any);
+
+    const session: any = await store.get('sid');
+    session.__lastTouch -= 31000;
+    await store.touch('sid', session);
+
+    expect(store.skippedTouches).toBe(0);
+  });
+
+  it('should not re-create destroyed sessions when touching', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+
+    await store.touch('gone', { cookie, __lastTouch: 0 } as any);
+
+    expect(data.has('sess:gone')).toBe(false);
+  });
+
+  it('should delete the stamp key with the session', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60 });
+    await store.set('sid', { cookie } as any);
+    await store.touch('sid', { cookie, __lastTouch: 0 } as any);
+    expect(data.has('session-touch:{sess:sid}')).toBe(true);
+
+    await store.destroy('sid');
+
+    expect(data.size).toBe(0);
+  });
+
+  it('should keep the stamp key outside the prefix and on the session\'s slot', async () => {
+    const store = new ValkeyStore({ client: mockClient, prefix: '{app}:', touchAfter: 60 });
+    await store.set('sid', { cookie } as any);
+    await store.touch('sid', { cookie, __lastTouch: 0 } as any);
+
+    expect(Array.from(data.keys())).toEqual(['{app}:sid', 'session-touch:{app}:sid']);
+  });
+
+  it('should reject session IDs that leave no hash tag for the stamp key', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60, logErrors: false });
+    store.on('error', () => {});
+
+    await expect(store.get('a}b')).rejects.toThrow("Invalid session ID format: '}' outside a hash tag in sess:a}b");
+    expect(await store.get('{user}:b')).toBeNull();
+  });
+
+  it('should keep dirty tracking effective', async () => {
+    const store = new ValkeyStore({ client: mockClient, touchAfter: 60, dirtyTracking: true });
+    await store.set('sid', { cookie, n: 1 } as any);
+    mockClient.set.mockClear();
+
+    const session: any = await store.get('sid');
+    await store.set('sid', session);
+
+    expect(mockClient.set).not.toHaveBeenCalled();
+    expect(store.skippedWrites).toBe(1);
+  });
+
+  it('should refresh the stamp field in hash storage', async () => {
+    mockClient.hgetall = jest.fn(async () => []);
+    mockClient.invokeScript = jest.fn(async () => 1);
+    const store = new ValkeyStore({ client: mockClient, storage: 'hash', touchAfter: 60 });
+
+    await store.touch('sid', { cookie, __lastTouch: 0 } as any);
+
+    const [, { keys, args }] = mockClient.invokeScript.mock.calls[0];
+    expect(keys).toEqual(['sess:sid']);
+    expect(args.slice(0, 3)).toEqual(['3600', '1', '__lastTouch']);
+  });
+
+  it('should touch every time without touchAfter', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+    await store.set('sid', { cookie } as any);
+
+    const session: any = await store.get('sid');
+    await store.touch('sid', session);
+    await store.touch('sid', session);
+
+    expect(session.__lastTouch).toBeUndefined();
+    expect(mockClient.expire).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate touchAfter', () => {
+    expect(() => new ValkeyStore({ client: mockClient, touchAfter: -1 }))
+      .toThrow('touchAfter must be a non-negative number of seconds');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for per-user session index bookkeeping
+ */
+
+import { ValkeyStore } from '../../src';
+
+describe('User Index', () => {
+  let data: Map<string, any>;
+  let mockClient: any;
+
+  const cookie = { originalMaxAge: 3600000, maxAge: 3600000 };
+
+  beforeEach(() => {
+    data = new Map();
+    mockClient = {
+      get: jest.fn(async (key: string) => data.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { data.set(key, value); return 'OK'; }),
+      del: jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length),
+      expire: jest.fn(async (key: string) => data.has(key)),
+      zrem: jest.fn(async () => 1),
+      invokeScript: jest.fn(async () => []),
+    };
+  });
+
+  it('should not touch any index unless configured', async () => {
+    const store = new ValkeyStore({ client: mockClient });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+    await store.destroy('sid');
+
+    expect(mockClient.invokeScript).not.toHaveBeenCalled();
+    expect(mockClient.get).not.toHaveBeenCalled();
+    expect(mockClient.zrem).not.toHaveBeenCalled();
+  });
+
+  it('should index sessions under the user found at userIdField', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'passport.user' });
+
+    await store.set('sid', { cookie, passport: { user: 42 } } as any);
+
+    const [, { keys, args }] = mockClient.invokeScript.mock.calls[0];
+    expect(keys).toEqual(['user-sessions:sess:{42}', 'user-sessions:sess:{42}:order']);
+    expect(args[0]).toBe('sid');
+    expect(Number(args[1])).toBeGreaterThan(Date.now() + 3500000);
+  });
+
+  it('should prefer getUserId and ignore sessions without a usable ID', async () => {
+    const store = new ValkeyStore({
+      client: mockClient,
+      userIdField: 'ignored',
+      getUserId: (session: any) => session.account?.id,
+      userIndexPrefix: 'owners:',
+    });
+
+    await store.set('anon', { cookie } as any);
+    await store.set('object', { cookie, account: { id: { nested: true } } } as any);
+    await store.set('sid', { cookie, account: { id: 'acct-1' } } as any);
+
+    expect(mockClient.invokeScript).toHaveBeenCalledTimes(1);
+    expect(mockClient.invokeScript.mock.calls[0][1].keys).toEqual(['owners:{acct-1}', 'owners:{acct-1}:order']);
+  });
+
+  it('should index without expiry when TTL is disabled', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', disableTTL: true });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+
+    expect(mockClient.invokeScript.mock.calls[0][1].args[1]).toBe('+inf');
+  });
+
+  it('should refresh the index on touch only for existing sessions', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId' });
+
+    await store.touch('missing', { cookie, userId: 'u1' } as any);
+    expect(mockClient.invokeScript).not.toHaveBeenCalled();
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+    await store.touch('sid', { cookie, userId: 'u1' } as any);
+    expect(mockClient.invokeScript).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove destroyed sessions from their owner\'s index', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId' });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+    await store.destroy('sid');
+
+    expect(data.has('sess:sid')).toBe(false);
+    expect(mockClient.zrem).toHaveBeenCalledWith('user-sessions:sess:{u1}', ['sid']);
+  });
+
+  it('should still destroy sessions that cannot be read', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId' });
+    data.set('sess:broken', 'not json');
+
+    await store.destroy('broken');
+
+    expect(data.has('sess:broken')).toBe(false);
+    expect(mockClient.zrem).not.toHaveBeenCalled();
+  });
+
+  it('should pass the session cap and eviction policy to the index script', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 3, evictionPolicy: 'lru' });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+
+    expect(mockClient.invokeScript.mock.calls[0][1].args.slice(3)).toEqual(['3', 'lru']);
+  });
+
+  it('should delete evicted sessions and emit an event per victim', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 1 });
+    const evicted: any[] = [];
+    store.on('evicted', (sid, userId) => evicted.push([sid, userId]));
+
+    data.set('sess:old', JSON.stringify({ cookie, userId: 'u1' }));
+    mockClient.invokeScript.mockResolvedValueOnce([Buffer.from('old')]);
+
+    await store.set('new', { cookie, userId: 'u1' } as any);
+
+    expect(mockClient.del).toHaveBeenCalledWith(['sess:old']);
+    expect(data.has('sess:old')).toBe(false);
+    expect(data.has('sess:new')).toBe(true);
+    expect(evicted).toEqual([['old', 'u1']]);
+  });
+
+  it('should not evict sessions that no longer belong to the user', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 1 });
+    const evicted: any[] = [];
+    store.on('evicted', (sid, userId) => evicted.push([sid, userId]));
+
+    data.set('sess:reassigned', JSON.stringify({ cookie, userId: 'u2' }));
+    data.set('sess:anonymous', JSON.stringify({ cookie }));
+    mockClient.invokeScript.mockResolvedValueOnce(['reassigned', 'anonymous', 'gone'].map(sid => Buffer.from(sid)));
+
+    await store.set('new', { cookie, userId: 'u1' } as any);
+
+    expect(mockClient.del).not.toHaveBeenCalled();
+    expect(data.has('sess:reassigned')).toBe(true);
+    expect(data.has('sess:anonymous')).toBe(true);
+    expect(evicted).toEqual([]);
+  });
+
+  it('should drop user indexes when clearing all sessions', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 2 });
+    data.set('sess:sid', JSON.stringify({ cookie, userId: 'u1' }));
+    data.set('user-sessions:sess:{u1}', 'index');
+    data.set('user-sessions:sess:{u1}:order', 'order');
+    mockClient.scan = jest.fn(async (_cursor: string, { match }: { match: string }) =>
+      ['0', Array.from(data.keys()).filter(key => key.startsWith(match.slice(0, -1)))]);
+    mockClient.unlink = jest.fn(async (keys: string[]) => keys.filter(key => data.delete(key)).length);
+
+    expect(await store.clear()).toBe(1);
+    expect(data.size).toBe(0);
+  });
+
+  it('should remove destroyed sessions from the eviction order when capped', async () => {
+    const store = new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 2 });
+
+    await store.set('sid', { cookie, userId: 'u1' } as any);
+    await store.destroy('sid');
+
+    expect(mockClient.zrem).toHaveBeenCalledWith('user-sessions:sess:{u1}:order', ['sid']);
+  });
+
+  it('should validate the session cap configuration', () => {
+    expect(() => new ValkeyStore({ client: mockClient, maxSessionsPerUser: 2 }))
+      .toThrow('maxSessionsPerUser requires getUserId or userIdField');
+    expect(() => new ValkeyStore({ client: mockClient, userIdField: 'userId', maxSessionsPerUser: 0 }))
+      .toThrow('maxSessionsPerUser must be a positive integer');
+    expect(() => new ValkeyStore({ client: mockClient, userIdField: 'userId', evictionPolicy: 'newest' as any }))
+      .toThrow('Invalid eviction policy: newest');
+  });
+});
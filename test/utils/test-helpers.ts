@@ -1,6 +1,6 @@
 import { GlideClient, GlideClientConfiguration, GlideClusterClient, GlideClusterClientConfiguration, ClusterScanCursor } from '@valkey/valkey-glide';
 import { ValkeyStore } from '../../src/index';
-import { SessionData } from '../../src/types';
+import { SessionData, ValkeyStoreOptions } from '../../src/types';
 import { Cookie } from 'express-session';
 
 // Extend SessionData for testing purposes
@@ -64,12 +64,14 @@ export async function createTestStore(options: {
     stringify: (obj: any) => string;
     parse: (str: string) => any;
   };
-} = {}): Promise<{ store: ValkeyStore; client: GlideClient | GlideClusterClient }> {
+} & Partial<Omit<ValkeyStoreOptions, 'client'>> = {}): Promise<{ store: ValkeyStore; client: GlideClient | GlideClusterClient }> {
   const client = options.useCluster
     ? await createTestClusterClient()
     : await createTestStandaloneClient();
 
+  const { useCluster, ...storeOptions } = options;
   const store = new ValkeyStore({
+    ...storeOptions,
     client: client as GlideClient, // Type assertion for compatibility
     prefix: options.prefix || TEST_CONFIG.TEST_PREFIX,
     ttl: options.ttl || TEST_CONFIG.DEFAULT_TTL,